@@ -0,0 +1,545 @@
+#!/usr/bin/env node
+import { Command } from "commander";
+import * as fs from "fs-extra";
+import * as path from "path";
+import chalk from "chalk";
+import {
+    EnvxPlan,
+    GenerateOptions,
+    applyPlan,
+    checkEnvironments,
+    compareEnvironments,
+    createPlan,
+    diagnoseWorkspace,
+    exportEnvironment,
+    generateEnvironment,
+    generateTypes,
+    listBackups,
+    listEnvironments,
+    pruneBackups,
+    removeEnvironment,
+    renameEnvironment,
+    restoreBackup,
+    syncWorkspace,
+    watchEnvironment,
+} from "./index";
+import {
+    ANGULARJS_FORMATS,
+    BACKUP_DIR,
+    EXPORT_FORMATS,
+    ExportFormat,
+    InputError,
+    LogLevel,
+    MANIFEST_FILE,
+    SCHEMA_FILE,
+    consoleLogger,
+    envDir,
+    log,
+    parseKVPairs,
+    relFromCwd,
+    stderrLogger,
+    truncate,
+} from "./core";
+
+/* ------------------------------ CLI -------------------------------- */
+
+/** Print an error (as JSON with --json) and set the exit code: 2 for invalid input, else 1. */
+function fail(e: any, json?: boolean) {
+    const message = e?.message || String(e);
+    if (json) console.log(JSON.stringify({ error: message }, null, 2));
+    else log.err(message);
+    process.exitCode = e instanceof InputError ? 2 : 1;
+}
+
+/** Print unified diffs with added and removed lines coloured. */
+function printDiffs(changes: { diff: string }[]) {
+    for (const c of changes) {
+        for (const line of c.diff.replace(/\n$/, "").split("\n")) {
+            if (line.startsWith("---") || line.startsWith("+++")) console.log(chalk.bold(line));
+            else if (line.startsWith("@@")) console.log(chalk.cyan(line));
+            else if (line.startsWith("+")) console.log(chalk.green(line));
+            else if (line.startsWith("-")) console.log(chalk.red(line));
+            else console.log(line);
+        }
+    }
+}
+
+const program = new Command();
+program
+    .name("envx")
+    .description("Smart env manager for Angular projects (AngularJS 1.x to Angular 21)")
+    .version("0.2.0")
+    .enablePositionalOptions(); // `gen --dry-run` and `gen types --dry-run` are separate options
+
+/** Options shared by `gen` and `plan`. */
+function withGenOptions(cmd: Command): Command {
+    return cmd
+        .argument("<env>", "environment name, e.g., dev | sit | uat | prod")
+        .option("-f, --folder <name>", "subfolder under environments/, e.g., f1")
+        .option("--project <name>", "Angular project name (defaults to defaultProject or first)")
+        .option("--source-root <path>", "override detected sourceRoot (e.g., apps/myapp/src)")
+        .option("-e, --env-file <path>", "env file to use instead of the .env cascade; repeat to layer (later wins)",
+            (p: string, prev: string[]) => [...prev, p], [] as string[])
+        .option("-s, --set <kv...>", "inline key=value pairs to write; type one with key:type=value (string, number, boolean, json)")
+        .option("--no-coerce", "write untyped values as strings instead of guessing numbers, booleans and JSON")
+        .option("--strict", "refuse untyped values with an ambiguous type (leading zeros, integers past 2^53, JSON-looking text)", false)
+        .option("--explain", "print which file each final value came from", false)
+        .option("--from-process-env", "also read values from environment variables starting with --prefix (over .env files, under --set)", false)
+        .option("--prefix <prefix>", "environment variable prefix to select and strip, e.g. NG_APP_")
+        .option("--require <key...>", "fail unless these keys end up with a non-empty value")
+        .option("--copy-from <env>", "clone from an existing environment file first (optional)")
+        .option("--schema <path>", "validate values against a schema file (default: envx.schema.json if present)")
+        .option("--key-delimiter <delim>", "nest delimited keys into objects, e.g. \"__\" turns API__BASE_URL into API.BASE_URL")
+        .option("--camel-case", "convert key segments to camelCase, e.g. API__BASE_URL → api.baseUrl", false)
+        .option("--allow-key <pattern...>", "key patterns that may be written even if they look like secrets, e.g. MAPS_API_KEY")
+        .option("--deny-key <pattern...>", "extra key patterns to refuse, e.g. \"*_INTERNAL\"")
+        .option("--runtime", "write assets/config/<env>.json and a startup loader instead of environment.<env>.ts", false)
+        .option("--merge", "add or update only the given keys in an existing environment file", false)
+        .option("--force", "overwrite an existing environment file", false)
+        .option("--no-types", "do not maintain environment.model.ts or type the generated file")
+        .option("--angularjs-format <fmt>", `AngularJS output: ${ANGULARJS_FORMATS.join(" | ")} (default: global, i.e. window.__ENV)`)
+        .option("--module <name>", "AngularJS module for --angularjs-format constant (default: ng-app in index.html)")
+        .option("--constant <name>", "constant or export name for AngularJS output (default: ENV)")
+        .option("--inject", "AngularJS: point the <!-- envx:env --> script block in index.html at the generated file", false)
+        .option("--no-backup", "do not keep a backup set of the replaced files in .envx/backups")
+        .option("--json", "print the result as JSON instead of progress lines", false);
+}
+
+type GenCliOptions = Omit<GenerateOptions, "env" | "values"> & { set?: string[]; json?: boolean };
+
+function toGenerateOptions(envName: string, opts: GenCliOptions): GenerateOptions {
+    const { set, json, ...rest } = opts;
+    return { ...rest, env: envName, values: parseKVPairs(set), logger: json ? undefined : consoleLogger };
+}
+
+const gen = withGenOptions(program.command("gen"))
+    .option("--dry-run", "show the plan and a diff of every file without writing", false)
+    .description("Generate environment file and update Angular config")
+    .action((envName: string, opts: GenCliOptions) => {
+        try {
+            const result = generateEnvironment(toGenerateOptions(envName, opts));
+            if (opts.json) {
+                console.log(JSON.stringify(result, null, 2));
+            } else if (result.dryRun) {
+                printDiffs(result.changes);
+            } else if (result.next.length) {
+                log.ok(result.mode !== "environment"
+                    ? `Done. ${result.next.join(",\n  ")}.`
+                    : `Done. Run with:\n${result.next.map(c => "  " + c).join("\n")}`);
+            }
+        } catch (e: any) {
+            fail(e, opts.json);
+        }
+    });
+
+gen
+    .command("types")
+    .option("--project <name>", "Angular project name")
+    .option("--source-root <path>", "override detected sourceRoot")
+    .option("--dry-run", "show plan without writing files", false)
+    .description("Regenerate environment.model.ts and type every environment file as Environment")
+    .action((opts: { project?: string; sourceRoot?: string; dryRun?: boolean }) => {
+        try {
+            const result = generateTypes({ ...opts, logger: consoleLogger });
+            if (result.dryRun) printDiffs(result.changes);
+            log.ok(`${result.typed.length} environment file(s) ${result.dryRun ? "would be" : "newly"} typed as Environment`);
+        } catch (e: any) {
+            fail(e);
+        }
+    });
+
+withGenOptions(program.command("plan"))
+    .requiredOption("-o, --out <file>", "where to write the plan, e.g. plan.json")
+    .description("Write what `gen` would change, with diffs, to a plan file for review")
+    .action((envName: string, opts: GenCliOptions & { out: string }) => {
+        try {
+            const { out, ...genOpts } = opts;
+            const plan = createPlan(toGenerateOptions(envName, genOpts));
+            fs.outputFileSync(path.resolve(process.cwd(), out), JSON.stringify(plan, null, 2) + "\n", "utf8");
+            if (opts.json) {
+                console.log(JSON.stringify(plan, null, 2));
+                return;
+            }
+            printDiffs(plan.changes);
+            log.ok(`Plan with ${plan.changes.length} file change(s) written to ${out}. Apply it with \`envx apply ${out}\`.`);
+        } catch (e: any) {
+            fail(e, opts.json);
+        }
+    });
+
+program
+    .command("apply")
+    .argument("<plan>", "plan file written by `envx plan`")
+    .option("--no-backup", "do not keep a backup set of the replaced files in .envx/backups")
+    .option("--json", "print the result as JSON", false)
+    .description("Write a plan exactly; refuses if any target changed since the plan was made")
+    .action((planFile: string, opts: { backup?: boolean; json?: boolean }) => {
+        try {
+            const abs = path.resolve(process.cwd(), planFile);
+            if (!fs.existsSync(abs)) throw new InputError(`${planFile} not found`);
+            let plan: EnvxPlan;
+            try { plan = fs.readJSONSync(abs); } catch (e: any) {
+                throw new InputError(`Invalid JSON in ${planFile}: ${e.message}`);
+            }
+            const result = applyPlan(plan, { backup: opts.backup, logger: opts.json ? undefined : consoleLogger });
+            if (opts.json) console.log(JSON.stringify(result, null, 2));
+            else log.ok(`Applied ${planFile} (${result.filesWritten.length} file(s))`);
+        } catch (e: any) {
+            fail(e, opts.json);
+        }
+    });
+
+withGenOptions(program.command("watch"))
+    .option("--debounce <ms>", "wait this long after the last change before regenerating", "300")
+    .description("Regenerate an environment whenever its .env files change, e.g. next to `ng serve`")
+    .action((envName: string, opts: GenCliOptions & { debounce: string }) => {
+        try {
+            const { debounce, ...genOpts } = opts;
+            // progress lines for every save would drown the dev server output; keep warnings and errors
+            const quiet = (level: LogLevel, m: string) => { if (level === "warn" || level === "err") consoleLogger(level, m); };
+            const watcher = watchEnvironment({
+                ...toGenerateOptions(envName, genOpts),
+                logger: opts.json ? undefined : quiet,
+                debounce: Number(debounce),
+                onResult: result => {
+                    if (opts.json) console.log(JSON.stringify(result));
+                    else if (result.filesWritten.length) log.ok(`Regenerated ${envName}: ${result.filesWritten.join(", ")}`);
+                    else log.info(`${envName} is up to date`);
+                },
+                onError: e => {
+                    if (opts.json) console.log(JSON.stringify({ error: e.message || String(e) }));
+                    else log.err(`${e.message || e} (still watching)`);
+                },
+            });
+            if (!opts.json) log.info(`Watching ${watcher.files.join(", ")}. Press Ctrl+C to stop.`);
+        } catch (e: any) {
+            fail(e, opts.json);
+        }
+    });
+
+program
+    .command("sync")
+    .option("-c, --config <path>", "manifest file", MANIFEST_FILE)
+    .option("--project <name>", "only sync this manifest project")
+    .option("--check", "report drift without writing and exit 1 if the workspace differs from the manifest", false)
+    .option("--dry-run", "show plan without writing files", false)
+    .option("--no-backup", "do not keep a backup set of the replaced files in .envx/backups")
+    .description("Reconcile environment files and Angular config with envx.config.json")
+    .action((opts: { config: string; project?: string; check?: boolean; dryRun?: boolean; backup?: boolean }) => {
+        try {
+            const result = syncWorkspace({ ...opts, logger: consoleLogger });
+            for (const p of result.projects) {
+                for (const d of p.drift) (opts.check ? log.err : log.info)(`  ${d}`);
+                for (const x of p.extras) log.warn(`  ${x}`);
+            }
+            if (result.dryRun) printDiffs(result.changes);
+
+            if (opts.check) {
+                if (result.drift) {
+                    log.err(`${result.drift} difference(s) from ${opts.config}. Run \`envx sync\` to fix.`);
+                    process.exitCode = 1;
+                } else {
+                    log.ok(`Workspace matches ${opts.config}`);
+                }
+            } else if (!opts.dryRun) {
+                log.ok(result.drift ? `Synced ${result.drift} difference(s)` : `Workspace already matches ${opts.config}`);
+            }
+        } catch (e: any) {
+            fail(e);
+        }
+    });
+
+type RetireCliOptions = { folder?: string; project?: string; sourceRoot?: string; dryRun?: boolean; backup?: boolean };
+
+program
+    .command("remove")
+    .argument("<env>", "environment to remove, e.g., uat")
+    .option("-f, --folder <name>", "only the variant under environments/<name> (default: every folder)")
+    .option("--project <name>", "Angular project name (defaults to defaultProject or first)")
+    .option("--source-root <path>", "override detected sourceRoot (e.g., apps/myapp/src)")
+    .option("--dry-run", "show plan without writing files", false)
+    .option("--no-backup", "do not keep a backup set of the replaced files in .envx/backups")
+    .description("Delete an environment's files and its Angular config entries")
+    .action((envName: string, opts: RetireCliOptions) => {
+        try {
+            const result = removeEnvironment(envName, { ...opts, logger: consoleLogger });
+            if (result.dryRun) printDiffs(result.changes);
+        } catch (e: any) {
+            fail(e);
+        }
+    });
+
+program
+    .command("rename")
+    .argument("<old>", "current environment name, e.g., qa")
+    .argument("<new>", "new environment name, e.g., sit")
+    .option("-f, --folder <name>", "only the variant under environments/<name> (default: every folder)")
+    .option("--project <name>", "Angular project name (defaults to defaultProject or first)")
+    .option("--source-root <path>", "override detected sourceRoot (e.g., apps/myapp/src)")
+    .option("--dry-run", "show plan without writing files", false)
+    .option("--no-backup", "do not keep a backup set of the replaced files in .envx/backups")
+    .description("Rename an environment's files and its Angular config entries")
+    .action((oldName: string, newName: string, opts: RetireCliOptions) => {
+        try {
+            const result = renameEnvironment(oldName, newName, { ...opts, logger: consoleLogger });
+            if (result.dryRun) printDiffs(result.changes);
+        } catch (e: any) {
+            fail(e);
+        }
+    });
+
+program
+    .command("list")
+    .option("--project <name>", "Angular project name")
+    .option("--source-root <path>", "override detected sourceRoot")
+    .option("--json", "print the result as JSON", false)
+    .description("List discovered environment files under environments/ (AngularJS: assets/env.<env>.js), recursively")
+    .action((opts: { project?: string; sourceRoot?: string; json?: boolean }) => {
+        try {
+            const { json, ...rest } = opts;
+            const result = listEnvironments(rest);
+            if (json) {
+                console.log(JSON.stringify(result, null, 2));
+                return;
+            }
+            if (result.project.projectName) log.info(`Project: ${result.project.projectName}`);
+
+            const base = result.project.kind === "angularjs"
+                ? path.resolve(process.cwd(), result.project.sourceRoot, "assets")
+                : envDir(result.project.sourceRoot);
+            if (!fs.existsSync(base)) {
+                log.warn(`No environments folder found at ${relFromCwd(base)}`);
+                return;
+            }
+            if (!result.environments.length) {
+                log.warn("No environment files found.");
+                return;
+            }
+            log.ok(`Found ${result.environments.length} file(s):`);
+            result.environments.forEach(e => console.log("  - " + e.file));
+        } catch (e: any) {
+            fail(e, opts.json);
+        }
+    });
+
+program
+    .command("check")
+    .option("--schema <path>", `schema file (default: ${SCHEMA_FILE})`)
+    .option("--project <name>", "Angular project name")
+    .option("--source-root <path>", "override detected sourceRoot")
+    .description("Validate environment files and .env files against envx.schema.json")
+    .action((opts: { schema?: string; project?: string; sourceRoot?: string }) => {
+        try {
+            const result = checkEnvironments({ ...opts, logger: consoleLogger });
+            if (!result.files.length) {
+                log.warn("No environment files or .env files found to check.");
+                return;
+            }
+            const failed = result.files.filter(f => f.issues.length);
+            for (const f of result.files) {
+                if (!f.issues.length) {
+                    log.ok(f.file);
+                    continue;
+                }
+                log.err(f.file);
+                for (const i of f.issues) console.log(`    ${i.key}: ${i.message}`);
+            }
+
+            if (failed.length) {
+                log.err(`${result.problems} problem(s) in ${failed.length} of ${result.files.length} file(s)`);
+                process.exitCode = 1;
+            } else {
+                log.ok(`All ${result.files.length} file(s) match ${result.schema}`);
+            }
+        } catch (e: any) {
+            fail(e);
+        }
+    });
+
+program
+    .command("doctor")
+    .option("--project <name>", "Angular project name")
+    .option("--source-root <path>", "override detected sourceRoot")
+    .option("--fix", "repair what can be derived from the workspace (wiring, baseline file)", false)
+    .option("--dry-run", "with --fix: show the repairs without writing files", false)
+    .option("--no-backup", "do not keep a backup set of the replaced files in .envx/backups")
+    .option("--json", "print the issues as JSON", false)
+    .description("Audit environment files and their Angular wiring; exits 1 while problems remain")
+    .action((opts: { project?: string; sourceRoot?: string; fix?: boolean; dryRun?: boolean; backup?: boolean; json?: boolean }) => {
+        try {
+            const { json, ...rest } = opts;
+            const result = diagnoseWorkspace({ ...rest, logger: json ? undefined : consoleLogger });
+            const issues = result.issues;
+            if (!json && opts.fix && opts.dryRun) printDiffs(result.changes);
+
+            const open = issues.filter(i => !i.fixed);
+            if (opts.json) {
+                console.log(JSON.stringify({ issues }, null, 2));
+            } else {
+                for (const i of issues) {
+                    if (i.fixed) {
+                        log.ok(`${opts.dryRun ? "Would fix" : "Fixed"}: ${i.message}`);
+                        continue;
+                    }
+                    log.err(i.message);
+                    if (i.fix) console.log(chalk.gray(`    --fix: ${i.fix}`));
+                    else if (i.hint) console.log(chalk.gray(`    ${i.hint}`));
+                }
+                const fixable = open.filter(i => i.fix).length;
+                if (!issues.length) log.ok("No problems found");
+                else if (open.length) log.warn(`${open.length} problem(s)${fixable ? `, ${fixable} fixable with --fix` : ""}`);
+            }
+            if (open.length) process.exitCode = 1;
+        } catch (e: any) {
+            fail(e, opts.json);
+        }
+    });
+
+program
+    .command("diff")
+    .argument("[envA]", "first environment, e.g., uat or f1/sit (omit both for a matrix of all environments)")
+    .argument("[envB]", "second environment, e.g., prod")
+    .option("-f, --folder <name>", "subfolder under environments/ for both environments")
+    .option("--project <name>", "Angular project name")
+    .option("--source-root <path>", "override detected sourceRoot")
+    .description("Compare environment files key by key")
+    .action((envA: string | undefined, envB: string | undefined, opts: {
+        folder?: string;
+        project?: string;
+        sourceRoot?: string;
+    }) => {
+        try {
+            const result = compareEnvironments(envA, envB, { ...opts, logger: consoleLogger });
+            if (result.kind === "pair") {
+                log.info(`${result.files[0]} → ${result.files[1]}`);
+                for (const a of result.added) console.log(chalk.green(`  + ${a.key}: ${a.value}`));
+                for (const r of result.removed) console.log(chalk.red(`  - ${r.key}: ${r.value}`));
+                for (const c of result.changed) console.log(chalk.yellow(`  ~ ${c.key}: ${c.from} → ${c.to}`));
+
+                const n = result.added.length + result.removed.length + result.changed.length;
+                if (n) log.warn(`${result.added.length} added, ${result.removed.length} removed, ${result.changed.length} changed, ${result.same} identical`);
+                else log.ok(`No differences (${result.same} keys)`);
+                return;
+            }
+
+            const count = result.environments.length;
+            if (count < 2) {
+                log.warn("Need at least two environment files for a matrix.");
+                return;
+            }
+            if (!result.drift.length) {
+                log.ok(`All ${count} environments share the same ${result.keys} keys and values`);
+                return;
+            }
+
+            const rows = result.drift.map(d => [d.key, ...d.values.map(v => truncate(v ?? "—", 28))]);
+            const header = ["key", ...result.environments.map(e => e.name)];
+            const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+            const line = (cells: string[]) => "  " + cells.map((c, i) => c.padEnd(widths[i])).join("  ");
+            console.log(chalk.bold(line(header)));
+            for (const r of rows) {
+                console.log(line(r).replace(/—/g, chalk.red("—")));
+            }
+            log.warn(`${result.drift.length} of ${result.keys} key(s) differ across ${count} environments (— = missing)`);
+        } catch (e: any) {
+            fail(e);
+        }
+    });
+
+program
+    .command("export")
+    .argument("<env>", "environment to export, e.g., uat, f1/sit or default")
+    .requiredOption("--format <fmt>", `output format: ${EXPORT_FORMATS.join(" | ")}`)
+    .option("-o, --out <file>", "write to a file instead of stdout")
+    .option("-f, --folder <name>", "subfolder under environments/")
+    .option("--project <name>", "Angular project name")
+    .option("--source-root <path>", "override detected sourceRoot")
+    .option("--key-delimiter <delim>", "join nested keys with this, e.g. api.baseUrl → api__baseUrl", "__")
+    .option("--upper-case", "UPPER_SNAKE_CASE keys, e.g. api.baseUrl → API__BASE_URL", false)
+    .option("--name <name>", "ConfigMap metadata.name (default: <project>-<env>)")
+    .description("Write an environment file as .env, flat JSON, a Kubernetes ConfigMap or a docker env-file")
+    .action((envName: string, opts: {
+        format: string;
+        out?: string;
+        folder?: string;
+        project?: string;
+        sourceRoot?: string;
+        keyDelimiter: string;
+        upperCase?: boolean;
+        name?: string;
+    }) => {
+        try {
+            const { out, format, ...rest } = opts;
+            if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+                throw new InputError(`Unknown format "${format}". Use one of: ${EXPORT_FORMATS.join(", ")}`);
+            }
+            const logger = out ? consoleLogger : stderrLogger;
+            const result = exportEnvironment({ ...rest, env: envName, format: format as ExportFormat, logger });
+            if (!out) {
+                process.stdout.write(result.content);
+                return;
+            }
+            fs.outputFileSync(path.resolve(process.cwd(), out), result.content, "utf8");
+            log.ok(`Exported ${result.file} to ${out} (${format})`);
+        } catch (e: any) {
+            fail(e);
+        }
+    });
+
+const backups = program
+    .command("backups")
+    .description("List, restore or prune the backup sets in .envx/backups");
+
+backups
+    .command("list")
+    .option("--json", "print the result as JSON", false)
+    .description("List backup sets, oldest first")
+    .action((opts: { json?: boolean }) => {
+        try {
+            const sets = listBackups();
+            if (opts.json) {
+                console.log(JSON.stringify(sets, null, 2));
+                return;
+            }
+            if (!sets.length) {
+                log.info(`No backups in ${BACKUP_DIR}`);
+                return;
+            }
+            for (const b of sets) {
+                console.log(`  ${chalk.bold(b.stamp)}  ${b.files.length} file(s)  ${b.command}`);
+                for (const f of b.files) console.log(`      ${f.existed ? f.path : f.path + " (created)"}`);
+            }
+        } catch (e: any) {
+            fail(e, opts.json);
+        }
+    });
+
+backups
+    .command("restore")
+    .argument("<stamp>", "backup set to restore, as shown by `envx backups list`")
+    .option("--dry-run", "show plan without writing files", false)
+    .description("Put the files of a backup set back; files that invocation created are deleted")
+    .action((stamp: string, opts: { dryRun?: boolean }) => {
+        try {
+            const changes = restoreBackup(stamp, { dryRun: opts.dryRun, logger: consoleLogger });
+            if (opts.dryRun) printDiffs(changes);
+        } catch (e: any) {
+            fail(e);
+        }
+    });
+
+backups
+    .command("prune")
+    .requiredOption("--keep <n>", "number of newest backup sets to keep")
+    .description("Delete all but the newest backup sets")
+    .action((opts: { keep: string }) => {
+        try {
+            if (!/^\d+$/.test(opts.keep)) throw new InputError(`--keep must be a whole number, got "${opts.keep}"`);
+            const removed = pruneBackups(Number(opts.keep));
+            log.ok(`Removed ${removed.length} backup set(s), kept ${listBackups().length}`);
+        } catch (e: any) {
+            fail(e);
+        }
+    });
+
+program.parse(process.argv);
@@ -0,0 +1,3026 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as dotenv from "dotenv";
+import * as semver from "semver";
+import chalk from "chalk";
+
+/* ---------------------------- run context --------------------------- */
+
+export type LogLevel = "info" | "ok" | "warn" | "err";
+export type Logger = (level: LogLevel, message: string) => void;
+
+const LOG_PREFIX: Record<LogLevel, string> = {
+    info: chalk.cyan("ℹ "),
+    ok: chalk.green("✔ "),
+    warn: chalk.yellow("⚠ "),
+    err: chalk.red("✖ "),
+};
+export const consoleLogger: Logger = (level, m) => console.log(LOG_PREFIX[level] + m);
+/** For commands whose stdout is data (`export` without --out). */
+export const stderrLogger: Logger = (level, m) => console.error(LOG_PREFIX[level] + m);
+
+/** What one run touched; paths are relative to the run's cwd. */
+export type RunReport = { filesWritten: string[]; configChanges: string[] };
+
+/**
+ * Everything runs synchronously, so a run's working directory, logger and
+ * report live here for its duration instead of being threaded through every call.
+ * Writes are staged (absolute path → new content, null = delete) and reads see them,
+ * so the same code path serves --dry-run, `plan` and a real run.
+ */
+let context: {
+    cwd: string;
+    logger: Logger | null;
+    report: RunReport;
+    staged: Map<string, string | null>;
+    backups: Set<string>;
+    /** Shown in backup sets, e.g. "gen uat". */
+    command: string;
+} | null = null;
+
+export function withContext<T>(
+    opts: { cwd?: string; logger?: Logger | null; command?: string },
+    fn: (report: RunReport) => T
+): T {
+    const previous = context;
+    const report: RunReport = { filesWritten: [], configChanges: [] };
+    context = {
+        cwd: path.resolve(opts.cwd || process.cwd()),
+        logger: opts.logger === undefined ? consoleLogger : opts.logger,
+        report,
+        staged: new Map(),
+        backups: new Set(),
+        command: opts.command || "envx",
+    };
+    try {
+        return fn(report);
+    } finally {
+        context = previous;
+    }
+}
+
+export const cwd = () => context?.cwd ?? process.cwd();
+
+/* ----------------------------- helpers ------------------------------ */
+
+const emit = (level: LogLevel) => (m: string) => {
+    const logger = context ? context.logger : consoleLogger;
+    if (logger) logger(level, m);
+};
+export const log = {
+    info: emit("info"),
+    ok: emit("ok"),
+    warn: emit("warn"),
+    err: emit("err"),
+};
+
+/** Invalid input or a conflict the user has to resolve; exits with code 2. */
+export class InputError extends Error {}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const posix = (p: string) => p.split(path.sep).join("/");
+export const relFromCwd = (p: string) => posix(path.relative(cwd(), p));
+
+/* ------------------------------- JSONC ------------------------------ */
+
+// angular.json and project.json may contain comments and trailing commas (JSONC). Config files are
+// parsed into a tree with source offsets, and updates are applied as text edits to the nodes that
+// changed, so comments, key order, indentation and line endings survive a `gen`.
+
+type JsonNode =
+    | { kind: "object"; start: number; end: number; props: JsonProp[] }
+    | { kind: "array"; start: number; end: number; items: JsonNode[] }
+    | { kind: "value"; start: number; end: number; value: unknown };
+type JsonProp = { key: string; keyStart: number; keyEnd: number; value: JsonNode };
+
+function parseJsonTree(text: string): JsonNode {
+    let i = 0;
+    const fail = (what: string): never => {
+        throw new SyntaxError(`${what} at line ${text.slice(0, i).split("\n").length}`);
+    };
+    const skip = () => {
+        for (;;) {
+            while (i < text.length && /\s/.test(text[i])) i++;
+            if (text.startsWith("//", i)) {
+                const nl = text.indexOf("\n", i);
+                i = nl < 0 ? text.length : nl;
+            } else if (text.startsWith("/*", i)) {
+                const close = text.indexOf("*/", i + 2);
+                if (close < 0) fail("Unterminated comment");
+                i = close + 2;
+            } else {
+                return;
+            }
+        }
+    };
+    const str = (): string => {
+        const start = i++;
+        while (i < text.length && text[i] !== "\"") i += text[i] === "\\" ? 2 : 1;
+        if (i >= text.length) fail("Unterminated string");
+        return JSON.parse(text.slice(start, ++i));
+    };
+    const literal = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null/y;
+    const node = (): JsonNode => {
+        skip();
+        const start = i;
+        if (text[i] === "{" || text[i] === "[") {
+            const close = text[i++] === "{" ? "}" : "]";
+            const props: JsonProp[] = [];
+            const items: JsonNode[] = [];
+            for (;;) {
+                skip();
+                if (text[i] === close) break;
+                if (close === "]") {
+                    items.push(node());
+                } else {
+                    if (text[i] !== "\"") fail("Expected a property name");
+                    const keyStart = i;
+                    const key = str();
+                    const keyEnd = i;
+                    skip();
+                    if (text[i++] !== ":") fail(`Expected ":" after "${key}"`);
+                    props.push({ key, keyStart, keyEnd, value: node() });
+                }
+                skip();
+                if (text[i] === ",") i++;
+                else if (text[i] !== close) fail(`Expected "," or "${close}"`);
+            }
+            i++;
+            return close === "}" ? { kind: "object", start, end: i, props } : { kind: "array", start, end: i, items };
+        }
+        if (text[i] === "\"") {
+            const value = str();
+            return { kind: "value", start, end: i, value };
+        }
+        literal.lastIndex = i;
+        const m = literal.exec(text);
+        if (!m) fail(i < text.length ? `Unexpected "${text[i]}"` : "Unexpected end of JSON");
+        i += m![0].length;
+        return { kind: "value", start, end: i, value: JSON.parse(m![0]) };
+    };
+    const root = node();
+    skip();
+    if (i < text.length) fail("Unexpected text after the JSON value");
+    return root;
+}
+
+function jsonTreeValue(n: JsonNode): any {
+    if (n.kind === "object") return Object.fromEntries(n.props.map(p => [p.key, jsonTreeValue(p.value)]));
+    if (n.kind === "array") return n.items.map(jsonTreeValue);
+    return n.value;
+}
+
+/** JSON.parse that also accepts comments and trailing commas. */
+export const parseJsonc = (text: string) => jsonTreeValue(parseJsonTree(text));
+
+/** Rewrite the JSON(C) document `text` so it holds `next`, editing only the nodes whose value changed. */
+export function editJsonText(text: string, next: unknown): string {
+    const eol = text.includes("\r\n") ? "\r\n" : "\n";
+    const firstIndent = /\n([ \t]+)\S/.exec(text)?.[1];
+    const unit = !firstIndent ? "  " : firstIndent.startsWith("\t") ? "\t" : firstIndent;
+    const format = (value: unknown, indent: string) => JSON.stringify(value, null, unit).split("\n").join(eol + indent);
+    const indentAt = (pos: number) => /^[ \t]*/.exec(text.slice(text.lastIndexOf("\n", pos - 1) + 1))![0];
+    const same = (n: JsonNode, value: unknown) => JSON.stringify(jsonTreeValue(n)) === JSON.stringify(value);
+
+    const edits: { start: number; end: number; text: string }[] = [];
+    const replace = (n: JsonNode, value: unknown) => edits.push({ start: n.start, end: n.end, text: format(value, indentAt(n.start)) });
+    /** Add entries after the last one of container `n`, on new lines unless `n` is written on one line. */
+    const append = (n: JsonNode, after: number, first: number, entries: (indent: string | null) => string[]) => {
+        const indent = text.slice(n.start, n.end).includes("\n") ? indentAt(first) : null;
+        const sep = indent === null ? ", " : `,${eol}${indent}`;
+        edits.push({ start: after, end: after, text: entries(indent).map(e => sep + e).join("") });
+    };
+    /** One-line JSON spaced like hand-written one-liners: `{ "a": 1, "b": [1, 2] }`. */
+    const inline = (value: unknown): string => {
+        if (Array.isArray(value)) return `[${value.map(inline).join(", ")}]`;
+        if (!isPlainObject(value)) return JSON.stringify(value);
+        const entries = Object.entries(value as Record<string, unknown>).map(([k, v]) => `${JSON.stringify(k)}: ${inline(v)}`);
+        return entries.length ? `{ ${entries.join(", ")} }` : "{}";
+    };
+    const formatIn = (value: unknown, indent: string | null) => (indent === null ? inline(value) : format(value, indent));
+
+    (function patch(n: JsonNode, value: unknown) {
+        if (same(n, value)) return;
+        if (n.kind === "array" && Array.isArray(value) && n.items.length && value.length >= n.items.length) {
+            n.items.forEach((item, j) => patch(item, value[j]));
+            const extra = value.slice(n.items.length);
+            if (extra.length) append(n, n.items[n.items.length - 1].end, n.items[0].start, indent => extra.map(v => formatIn(v, indent)));
+            return;
+        }
+        if (n.kind !== "object" || !n.props.length || !isPlainObject(value)) return replace(n, value);
+
+        const oldKeys = n.props.map(p => p.key);
+        const newKeys = Object.keys(value);
+        const placed = new Set<string>();
+        const kept = n.props.map((p, j) => {
+            if (p.key in value) {
+                placed.add(p.key);
+                return p.key;
+            }
+            // A key replaced in place (a renamed configuration) keeps its position.
+            const renamed = oldKeys.length === newKeys.length && !oldKeys.includes(newKeys[j]) ? newKeys[j] : null;
+            if (renamed) {
+                placed.add(renamed);
+                edits.push({ start: p.keyStart, end: p.keyEnd, text: JSON.stringify(renamed) });
+            }
+            return renamed;
+        });
+        if (!kept.some(k => k !== null)) return replace(n, value);
+
+        const lastKept = kept.map(k => k !== null).lastIndexOf(true);
+        n.props.forEach((p, j) => {
+            if (kept[j] !== null) return patch(p.value, value[kept[j]!]);
+            if (j < lastKept) edits.push({ start: p.keyStart, end: n.props[j + 1].keyStart, text: "" });
+        });
+        const last = n.props[n.props.length - 1];
+        if (lastKept < n.props.length - 1) edits.push({ start: n.props[lastKept].value.end, end: last.value.end, text: "" });
+
+        const added = newKeys.filter(k => !placed.has(k));
+        if (added.length) {
+            append(n, last.value.end, n.props[0].keyStart, indent => added.map(k => `${JSON.stringify(k)}: ${formatIn(value[k], indent)}`));
+        }
+    })(parseJsonTree(text), next);
+
+    let out = text;
+    for (const e of edits.sort((a, b) => b.start - a.start || b.end - a.end)) {
+        out = out.slice(0, e.start) + e.text + out.slice(e.end);
+    }
+    // Never trade correctness for a small diff: if the edits went wrong, write the whole document.
+    try {
+        if (JSON.stringify(parseJsonc(out)) === JSON.stringify(next)) return out;
+    } catch { /* fall through */ }
+    return format(next, "") + eol;
+}
+
+/* --------------------------- staged files --------------------------- */
+
+/** One file a run creates (before = null), changes, or deletes (after = null); path is relative to cwd. */
+export type FileChange = { path: string; before: string | null; after: string | null; backup: boolean };
+
+function exists(absPath: string) {
+    const staged = context?.staged;
+    if (staged?.has(absPath)) return staged.get(absPath) !== null;
+    if (staged) {
+        for (const [p, c] of staged) if (c !== null && p.startsWith(absPath + path.sep)) return true;
+    }
+    return fs.existsSync(absPath);
+}
+
+function readText(absPath: string): string {
+    const staged = context?.staged.get(absPath);
+    if (staged === null) throw new Error(`${relFromCwd(absPath)} not found`);
+    return staged ?? fs.readFileSync(absPath, "utf8");
+}
+
+const readJson = (absPath: string) => parseJsonc(readText(absPath));
+
+/** Every file under `dir`, recursively, as the run currently sees them. */
+function walkFiles(dir: string): string[] {
+    const out = new Set<string>();
+    if (fs.existsSync(dir)) {
+        (function walk(d: string) {
+            for (const ent of fs.readdirSync(d, { withFileTypes: true })) {
+                const full = path.join(d, ent.name);
+                if (ent.isDirectory()) walk(full);
+                else out.add(full);
+            }
+        })(dir);
+    }
+    for (const [p, c] of context?.staged || []) {
+        if (!p.startsWith(dir + path.sep)) continue;
+        if (c === null) out.delete(p); else out.add(p);
+    }
+    return [...out];
+}
+
+function activeRun() {
+    if (!context) throw new Error("envx: file writes must happen inside withContext()");
+    return context;
+}
+
+/** Stage a generated or edited file; written when the run is settled. */
+function writeOutput(absPath: string, content: string) {
+    activeRun().staged.set(absPath, content);
+}
+
+/** Stage a JSON(C) config as `data`, editing the existing text in place where there is one. */
+/** Stage `data` as the new content of a JSON(C) file; false when that changes nothing. */
+function writeJsonOutput(absPath: string, data: unknown): boolean {
+    const before = exists(absPath) ? readText(absPath) : null;
+    const after = before === null ? JSON.stringify(data, null, 2) + "\n" : editJsonText(before, data);
+    if (after === before) return false;
+    writeOutput(absPath, after);
+    return true;
+}
+
+function moveOutput(from: string, to: string) {
+    const run = activeRun();
+    writeOutput(to, readText(from));
+    removeOutput(from);
+    if (run.backups.has(from)) run.backups.add(to);
+}
+
+function removeOutput(absPath: string) {
+    activeRun().staged.set(absPath, null);
+}
+
+/** Record what a config update changes (also on --dry-run, where nothing is written). */
+function recordConfigChanges(absPath: string, changes: string[]) {
+    for (const c of changes) context?.report.configChanges.push(`${relFromCwd(absPath)}: ${c.replace(/\s+/g, " ")}`);
+}
+
+/** Ask for the previous content of `absPath` to go into the run's backup set. */
+function backupFile(absPath: string, doBackup: boolean) {
+    if (doBackup) activeRun().backups.add(absPath);
+}
+
+/** What the current run has staged, compared with the files on disk. Unchanged files are left out. */
+export function stagedChanges(): FileChange[] {
+    const changes: FileChange[] = [];
+    for (const [abs, after] of context?.staged || []) {
+        const before = fs.existsSync(abs) ? fs.readFileSync(abs, "utf8") : null;
+        if (before === after) continue;
+        changes.push({ path: relFromCwd(abs), before, after, backup: !!context?.backups.has(abs) });
+    }
+    return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/* ------------------------------ backups ----------------------------- */
+
+export const BACKUP_DIR = ".envx/backups";
+
+/** One backup set: the files one invocation changed, as they were before it. */
+export type BackupManifest = {
+    stamp: string;
+    createdAt: string;
+    command: string;
+    /** `existed: false` means the invocation created the file; restoring deletes it. */
+    files: { path: string; existed: boolean }[];
+};
+
+const backupRoot = () => path.resolve(cwd(), BACKUP_DIR);
+
+function writeBackupSet(changes: FileChange[], command: string): string {
+    const now = new Date();
+    let stamp = now.toISOString().replace(/[:.]/g, "-");
+    for (let n = 1; fs.existsSync(path.join(backupRoot(), stamp)); n++) {
+        stamp = `${now.toISOString().replace(/[:.]/g, "-")}-${n}`;
+    }
+    const dir = path.join(backupRoot(), stamp);
+    const manifest: BackupManifest = { stamp, createdAt: now.toISOString(), command, files: [] };
+    for (const c of changes) {
+        const abs = path.resolve(cwd(), c.path);
+        const existed = fs.existsSync(abs);
+        if (existed) fs.copySync(abs, path.join(dir, "files", c.path));
+        manifest.files.push({ path: c.path, existed });
+    }
+    fs.outputFileSync(path.join(dir, "manifest.json"), JSON.stringify(manifest, null, 2) + "\n", "utf8");
+    const ignore = path.resolve(cwd(), ".envx", ".gitignore");
+    if (!fs.existsSync(ignore)) fs.outputFileSync(ignore, "backups/\n", "utf8");
+    log.info(`Backup created: ${BACKUP_DIR}/${stamp} (${changes.length} file(s))`);
+    return stamp;
+}
+
+export function listBackups(): BackupManifest[] {
+    const root = backupRoot();
+    if (!fs.existsSync(root)) return [];
+    const sets: BackupManifest[] = [];
+    for (const stamp of fs.readdirSync(root)) {
+        const file = path.join(root, stamp, "manifest.json");
+        if (!fs.existsSync(file)) continue;
+        try { sets.push(fs.readJSONSync(file)); } catch { log.warn(`Skipping unreadable ${relFromCwd(file)}`); }
+    }
+    return sets.sort((a, b) => a.stamp.localeCompare(b.stamp));
+}
+
+/** Stage the files of backup set `stamp` back into place; files the invocation created are removed. */
+export function restoreBackup(stamp: string): BackupManifest {
+    const set = listBackups().find(b => b.stamp === stamp);
+    if (!set) throw new InputError(`No backup "${stamp}" in ${BACKUP_DIR}. Run \`envx backups list\``);
+    for (const f of set.files) {
+        const abs = path.resolve(cwd(), f.path);
+        backupFile(abs, true);
+        if (f.existed) writeOutput(abs, fs.readFileSync(path.join(backupRoot(), stamp, "files", f.path), "utf8"));
+        else removeOutput(abs);
+    }
+    return set;
+}
+
+/** Delete all but the newest `keep` backup sets; returns the removed stamps. */
+export function pruneBackups(keep: number): string[] {
+    if (!Number.isInteger(keep) || keep < 0) throw new InputError(`--keep must be a whole number, got "${keep}"`);
+    const sets = listBackups();
+    const removed = sets.slice(0, Math.max(0, sets.length - keep)).map(b => b.stamp);
+    for (const stamp of removed) fs.removeSync(path.join(backupRoot(), stamp));
+    return removed;
+}
+
+/* --------------------------- committing ----------------------------- */
+
+/** Write one file through a temporary sibling so a crash never leaves it half written. */
+function writeFileAtomic(absPath: string, content: string) {
+    fs.mkdirpSync(path.dirname(absPath));
+    const tmp = `${absPath}.envx-${process.pid}.tmp`;
+    fs.writeFileSync(tmp, content, "utf8");
+    fs.renameSync(tmp, absPath);
+}
+
+/**
+ * Write `changes` as one transaction: the backup set first (when any change asks for one),
+ * then every file. If a write fails, files already written are put back and the error rethrown.
+ */
+export function commitChanges(changes: FileChange[]) {
+    if (!changes.length) return;
+    if (changes.some(c => c.backup)) writeBackupSet(changes, context?.command || "envx");
+
+    const done: { abs: string; before: string | null }[] = [];
+    try {
+        for (const c of changes) {
+            const abs = path.resolve(cwd(), c.path);
+            const before = fs.existsSync(abs) ? fs.readFileSync(abs, "utf8") : null;
+            if (c.after === null) fs.removeSync(abs);
+            else writeFileAtomic(abs, c.after);
+            done.push({ abs, before });
+        }
+    } catch (e: any) {
+        for (const { abs, before } of done.reverse()) {
+            try {
+                if (before === null) fs.removeSync(abs);
+                else writeFileAtomic(abs, before);
+            } catch { /* keep rolling back the others */ }
+        }
+        throw new Error(`Writing failed, ${done.length} file(s) rolled back: ${e.message || e}`);
+    }
+    for (const c of changes) context?.report.filesWritten.push(c.path);
+    context?.staged.clear();
+}
+
+/** End a run: commit what it staged, or on a dry run leave the disk alone. Returns the changes either way. */
+export function settleRun(dryRun: boolean): FileChange[] {
+    const changes = stagedChanges();
+    if (!dryRun) commitChanges(changes);
+    return changes;
+}
+
+/* ----------------------------- file diffs --------------------------- */
+
+type DiffOp = { op: " " | "-" | "+"; line: string };
+
+const splitLines = (s: string | null) => (s ? s.replace(/\r?\n$/, "").split(/\r?\n/) : []);
+
+/** Line diff via the longest common subsequence; very large inputs degrade to delete-all/insert-all. */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length, endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+    const ops: DiffOp[] = a.slice(0, start).map(line => ({ op: " ", line }));
+    const midA = a.slice(start, endA), midB = b.slice(start, endB);
+    const n = midA.length, m = midB.length;
+    if (n * m > 4_000_000) {
+        ops.push(...midA.map(line => ({ op: "-" as const, line })), ...midB.map(line => ({ op: "+" as const, line })));
+    } else {
+        const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+            }
+        }
+        let i = 0, j = 0;
+        while (i < n || j < m) {
+            if (i < n && j < m && midA[i] === midB[j]) { ops.push({ op: " ", line: midA[i] }); i++; j++; }
+            else if (j >= m || (i < n && lcs[i + 1][j] >= lcs[i][j + 1])) ops.push({ op: "-", line: midA[i++] });
+            else ops.push({ op: "+", line: midB[j++] });
+        }
+    }
+    ops.push(...a.slice(endA).map(line => ({ op: " " as const, line })));
+    return ops;
+}
+
+/** `diff -u` style text for one file change, with three lines of context and secret-looking values masked. */
+export function unifiedDiff(change: Pick<FileChange, "path" | "before" | "after">, contextLines = 3): string {
+    const ops = diffLines(splitLines(change.before), splitLines(change.after));
+    const out = [
+        change.before === null ? "--- /dev/null" : `--- a/${change.path}`,
+        change.after === null ? "+++ /dev/null" : `+++ b/${change.path}`,
+    ];
+    const changed = ops.map((o, i) => (o.op === " " ? -1 : i)).filter(i => i >= 0);
+    let k = 0;
+    while (k < changed.length) {
+        const from = Math.max(0, changed[k] - contextLines);
+        let last = changed[k];
+        while (k + 1 < changed.length && changed[k + 1] - last <= 2 * contextLines) last = changed[++k];
+        k++;
+        const to = Math.min(ops.length, last + contextLines + 1);
+
+        const before = ops.slice(0, from);
+        const hunk = ops.slice(from, to);
+        const aStart = before.filter(o => o.op !== "+").length;
+        const bStart = before.filter(o => o.op !== "-").length;
+        const aLen = hunk.filter(o => o.op !== "+").length;
+        const bLen = hunk.filter(o => o.op !== "-").length;
+        out.push(`@@ -${aLen ? aStart + 1 : aStart},${aLen} +${bLen ? bStart + 1 : bStart},${bLen} @@`);
+        for (const o of hunk) out.push(o.op + maskSecretLine(o.line));
+    }
+    return out.join("\n") + "\n";
+}
+
+/** Types a value can be given explicitly, e.g. `--set PORT:number=8080`. */
+export const VALUE_TYPES = ["string", "number", "boolean", "json"] as const;
+export type ValueType = typeof VALUE_TYPES[number];
+
+/** How raw text becomes a typed value: explicit per-key types, guessing (default), or strings only. */
+type ValueTyping = {
+    /** Guess booleans, numbers and JSON for untyped keys. Default: true. */
+    coerce?: boolean;
+    /** Refuse untyped values whose guessed type could change them (see `ambiguity`). */
+    strict?: boolean;
+    /** Explicit types by raw key. */
+    valueTypes?: Record<string, ValueType>;
+};
+
+const looksLikeNumber = (v: string) => /^-?\d+(\.\d+)?$/.test(v);
+const looksLikeJson = (v: string) => (v.startsWith("[") && v.endsWith("]")) || (v.startsWith("{") && v.endsWith("}"));
+
+/** Why guessing a type for `t` could change what it means, or null when the guess is safe. */
+function ambiguity(t: string): string | null {
+    if (/^-?0\d/.test(t)) return "has a leading zero, which a number would drop";
+    if (/^-?\d+$/.test(t) && !Number.isSafeInteger(Number(t))) return "is larger than 2^53, which a number cannot hold exactly";
+    if (looksLikeJson(t)) return "looks like JSON";
+    return null;
+}
+
+function parseTyped(key: string, t: string, type: ValueType): any {
+    switch (type) {
+        case "string":
+            return t;
+        case "number":
+            if (!/^-?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(t)) throw new InputError(`${key}: "${t}" is not a number`);
+            if (/^-?\d+$/.test(t) && !Number.isSafeInteger(Number(t))) {
+                throw new InputError(`${key}: ${t} is larger than 2^53 and would lose precision; use ${key}:string`);
+            }
+            return Number(t);
+        case "boolean":
+            if (t !== "true" && t !== "false") throw new InputError(`${key}: "${t}" is not true or false`);
+            return t === "true";
+        case "json":
+            try { return JSON.parse(t); } catch (e: any) {
+                throw new InputError(`${key}: invalid JSON (${e.message})`);
+            }
+    }
+}
+
+/**
+ * A raw value as it gets written. An explicit type wins; otherwise booleans, numbers and
+ * JSON are guessed unless `coerce` is false. Guesses that would change the text (leading
+ * zeros, integers past 2^53) stay strings, or fail under `strict`, as does JSON-looking text.
+ */
+function parseValue(v: string, key = "", typing: ValueTyping = {}): any {
+    const t = v.trim();
+    const type = typing.valueTypes?.[key];
+    if (type) return parseTyped(key, t, type);
+    if (typing.coerce === false) return t;
+    if (t === "true") return true;
+    if (t === "false") return false;
+
+    const why = ambiguity(t);
+    if (why && typing.strict) {
+        const alt = looksLikeJson(t) ? "json" : "number";
+        throw new InputError(
+            `${key} = ${t} ${why}. Give it a type in ${SCHEMA_FILE} ("${key}": { "type": "string" }), ` +
+            `or for a --set value with ${key}:string=... or ${key}:${alt}=...`
+        );
+    }
+    if (why && !looksLikeJson(t)) return t;
+    if (looksLikeNumber(t)) return Number(t);
+    if (looksLikeJson(t)) {
+        try { return JSON.parse(t); } catch { /* ignore */ }
+    }
+    return t;
+}
+
+/**
+ * Split `KEY:type` hints off value keys (`--set PORT:number=8080`, manifest `values`).
+ * Numbers and booleans passed as such (API, manifest) keep their type.
+ */
+export function splitTypeHints(values: Record<string, unknown>): { values: Record<string, string>; valueTypes: Record<string, ValueType> } {
+    const out: Record<string, string> = {};
+    const valueTypes: Record<string, ValueType> = {};
+    for (const [rawKey, v] of Object.entries(values)) {
+        const m = /^(.+):([a-z]+)$/.exec(rawKey);
+        if (m && !(VALUE_TYPES as readonly string[]).includes(m[2])) {
+            throw new InputError(`Unknown type "${m[2]}" in "${rawKey}". Use one of: ${VALUE_TYPES.join(", ")}`);
+        }
+        const key = m ? m[1] : rawKey;
+        out[key] = typeof v === "string" ? v : JSON.stringify(v);
+        if (m) valueTypes[key] = m[2] as ValueType;
+        else if (typeof v === "number" || typeof v === "boolean") valueTypes[key] = typeof v as ValueType;
+        else if (v !== null && typeof v === "object") valueTypes[key] = "json";
+    }
+    return { values: out, valueTypes };
+}
+
+export function parseKVPairs(pairs?: string[]): Record<string, string> {
+    const out: Record<string, string> = {};
+    if (!pairs) return out;
+    for (const p of pairs) {
+        const i = p.indexOf("=");
+        if (i === -1) continue;
+        const k = p.slice(0, i).trim();
+        const v = p.slice(i + 1).trim();
+        if (k) out[k] = v;
+    }
+    return out;
+}
+
+const isPlainObject = (v: any): v is Record<string, any> =>
+    !!v && typeof v === "object" && !Array.isArray(v) && Object.getPrototypeOf(v) === Object.prototype;
+
+/** How flat .env keys map to properties (`API__BASE_URL` → `api.baseUrl` with "__" and camelCase) and how values are typed. */
+type KeyOptions = ValueTyping & { keyDelimiter?: string; camelCase?: boolean };
+
+function camelSegment(seg: string) {
+    if (/[_-]/.test(seg) || seg === seg.toUpperCase()) {
+        return seg.toLowerCase().replace(/[_-]+([a-z0-9])/g, (_m, c: string) => c.toUpperCase());
+    }
+    return seg.charAt(0).toLowerCase() + seg.slice(1);
+}
+
+/** Type raw values with parseValue and nest delimited keys into objects. */
+function buildValues(kv: Record<string, string>, keys: KeyOptions = {}): Record<string, any> {
+    const out: Record<string, any> = {};
+    const origin: Record<string, string> = {}; // property path → source key, for conflict messages
+    for (const [rawKey, raw] of Object.entries(kv)) {
+        const segments = keys.keyDelimiter ? rawKey.split(keys.keyDelimiter) : [rawKey];
+        if (segments.some(seg => !seg)) throw new InputError(`Key "${rawKey}" has an empty segment for delimiter "${keys.keyDelimiter}"`);
+        const names = keys.camelCase ? segments.map(camelSegment) : segments;
+
+        let node = out;
+        for (let i = 0; i < names.length; i++) {
+            const at = names.slice(0, i + 1).join(".");
+            const leaf = i === names.length - 1;
+            const existing = node[names[i]];
+            if (existing !== undefined && (leaf || !isPlainObject(existing) || origin[at] !== undefined)) {
+                const other = origin[at] ?? Object.keys(origin).filter(p => p.startsWith(at + ".")).map(p => origin[p])[0];
+                throw new InputError(
+                    leaf && !isPlainObject(existing)
+                        ? `Keys "${other}" and "${rawKey}" both map to "${at}"`
+                        : `Key conflict: "${at}" is both a value and an object ("${other}" vs "${rawKey}")`
+                );
+            }
+            if (leaf) {
+                node[names[i]] = parseValue(raw, rawKey, keys);
+                origin[at] = rawKey;
+            } else {
+                node = node[names[i]] = existing ?? {};
+            }
+        }
+    }
+    return out;
+}
+
+export function sanitizeFolder(input?: string): string | undefined {
+    if (!input) return undefined;
+    const cleaned = input.replace(/^[\\/]+/, "").replace(/\.\./g, "").trim();
+    return cleaned ? cleaned : undefined;
+}
+
+/** Values plus where each one came from (a file path or "--set"). */
+type ResolvedEnv = { values: Record<string, string>; sources: Record<string, string> };
+
+/**
+ * Env files for an environment, lowest precedence first:
+ * `.env` < `.env.local` < `.env.<env>` < `.env.<env>.local`.
+ * Explicit `--env-file` paths replace that cascade and layer in the order given.
+ */
+function envFileCandidates(envName: string, explicitPaths?: string[]) {
+    if (explicitPaths && explicitPaths.length) {
+        return explicitPaths.map(p => {
+            const abs = path.resolve(cwd(), p);
+            if (!exists(abs)) throw new InputError(`Env file not found: ${p}`);
+            return abs;
+        });
+    }
+    return [".env", ".env.local", `.env.${envName}`, `.env.${envName}.local`]
+        .map(f => path.resolve(cwd(), f))
+        .filter(f => exists(f));
+}
+
+/** The files `loadEnvFile` reads for `envName`, including ones that do not exist yet (for `watch`). */
+export function envFileWatchList(envName: string, explicitPaths?: string[]) {
+    const files = explicitPaths && explicitPaths.length
+        ? explicitPaths
+        : [".env", ".env.local", `.env.${envName}`, `.env.${envName}.local`];
+    return files.map(f => path.resolve(cwd(), f));
+}
+
+export function loadEnvFile(envName: string, explicitPaths?: string[], quiet = false): ResolvedEnv {
+    const out: ResolvedEnv = { values: {}, sources: {} };
+    for (const p of envFileCandidates(envName, explicitPaths)) {
+        const parsed = dotenv.parse(readText(p));
+        for (const [k, v] of Object.entries(parsed)) {
+            out.values[k] = v;
+            out.sources[k] = relFromCwd(p);
+        }
+        if (!quiet) log.info(`Loaded env file: ${relFromCwd(p)}`);
+    }
+    return out;
+}
+
+/**
+ * Variables named `<prefix>KEY` in the process environment, prefix stripped. A prefix
+ * is mandatory: taking every variable would copy PATH, tokens and the rest of the CI
+ * environment into the bundle.
+ */
+function loadProcessEnv(prefix: string | undefined, quiet = false): ResolvedEnv {
+    if (!prefix) throw new InputError("--from-process-env needs --prefix (e.g. --prefix NG_APP_).");
+    const out: ResolvedEnv = { values: {}, sources: {} };
+    for (const name of Object.keys(process.env).sort()) {
+        const v = process.env[name];
+        if (!name.startsWith(prefix) || name === prefix || v === undefined) continue;
+        const key = name.slice(prefix.length);
+        out.values[key] = v;
+        out.sources[key] = `process.env.${name}`;
+    }
+    const n = Object.keys(out.values).length;
+    if (!quiet) log.info(`Read ${n} value(s) from ${prefix}* environment variables`);
+    return out;
+}
+
+function layerValues(base: ResolvedEnv, values: Record<string, string>, source: string): ResolvedEnv {
+    const out: ResolvedEnv = { values: { ...base.values }, sources: { ...base.sources } };
+    for (const [k, v] of Object.entries(values)) {
+        out.values[k] = v;
+        out.sources[k] = source;
+    }
+    return out;
+}
+
+/** Resolve `${VAR}` and `${VAR:-default}` (unset or empty) against the other keys; `\${` stays literal. */
+export function expandVariables(env: ResolvedEnv): ResolvedEnv {
+    const done: Record<string, string> = {};
+    const resolving: string[] = [];
+    const resolve = (key: string): string => {
+        if (key in done) return done[key];
+        if (resolving.includes(key)) {
+            throw new InputError(`Circular variable reference: ${[...resolving, key].join(" → ")}`);
+        }
+        resolving.push(key);
+        const value = env.values[key].replace(/(\\?)\$\{([A-Za-z_][\w.]*)(?::-([^}]*))?\}/g,
+            (m, escaped: string, name: string, fallback?: string) => {
+                if (escaped) return m.slice(1);
+                const found = name in env.values ? resolve(name) : undefined;
+                if (fallback !== undefined && !found) return fallback; // `:-` covers unset and empty
+                if (found !== undefined) return found;
+                throw new InputError(`${key} references \${${name}}, which is not defined (use \${${name}:-default})`);
+            });
+        resolving.pop();
+        return (done[key] = value);
+    };
+    const out: ResolvedEnv = { values: {}, sources: { ...env.sources } };
+    for (const k of Object.keys(env.values)) out.values[k] = resolve(k);
+    return out;
+}
+
+/** Print each final value with the layer it came from; secret-looking values are masked. */
+function explainValues(env: ResolvedEnv, policy: SecretPolicy) {
+    const keys = Object.keys(env.values);
+    if (!keys.length) { log.info("No values resolved."); return; }
+    log.info("Resolved values:");
+    const width = Math.max(...keys.map(k => k.length));
+    for (const k of keys) {
+        log.info(`  ${k.padEnd(width)} = ${displayValue(k, env.values[k], policy)}  ${chalk.gray("← " + env.sources[k])}`);
+    }
+}
+
+/* ------------------------- Angular detection ------------------------ */
+
+export type ProjectKind = "angularjs" | "ng-cli-legacy" | "angular-modern";
+type TargetsObj = { build?: any; serve?: any };
+
+function readPackageJson() {
+    const p = path.resolve(cwd(), "package.json");
+    if (!exists(p)) return null;
+    try { return readJson(p); } catch { return null; }
+}
+
+function readJsonIfExists(abs: string) {
+    if (!exists(abs)) return null;
+    try { return readJson(abs); } catch { return null; }
+}
+
+function isNxWorkspace() {
+    return ["nx.json", "workspace.json"].some(f => exists(path.resolve(cwd(), f)));
+}
+
+export function detectProjectKind(): ProjectKind {
+    const angularJson = path.resolve(cwd(), "angular.json");
+    const ngCliJson = path.resolve(cwd(), ".angular-cli.json");
+    const pkg = readPackageJson();
+    const deps = Object.assign({}, pkg?.dependencies, pkg?.devDependencies);
+    const hasAngularJS = deps && typeof deps["angular"] === "string";
+    const ngCore = deps && deps["@angular/core"];
+
+    if (exists(angularJson)) return "angular-modern";
+    if (exists(ngCliJson)) return "ng-cli-legacy";
+    if (isNxWorkspace() && !(hasAngularJS && !ngCore)) return "angular-modern";
+
+    if (ngCore) {
+        const v = semver.coerce(ngCore);
+        return v && semver.gte(v, "6.0.0") ? "angular-modern" : "ng-cli-legacy";
+    }
+    return hasAngularJS ? "angularjs" : "angular-modern";
+}
+
+/** A workspace project and the JSON document (angular.json, workspace.json or project.json) it lives in. */
+type ProjectInfo = {
+    projectName: string;
+    sourceRoot: string;
+    targets: TargetsObj;
+    data: any;
+    project: any;
+    configFile: string;
+    usesTargets: boolean;
+    nx: boolean;
+};
+
+type NxProjectRef = { configFile: string; inline: boolean };
+
+/** Nx projects by name: workspace.json entries, a root project.json and project.json files under the apps dir. */
+function findNxProjects(): Map<string, NxProjectRef> {
+    const found = new Map<string, NxProjectRef>();
+    const root = cwd();
+    const add = (file: string) => {
+        try {
+            const json = readJson(file);
+            const name = json?.name || path.basename(path.dirname(file));
+            if (!found.has(name)) found.set(name, { configFile: file, inline: false });
+        } catch { /* unreadable project.json: skip */ }
+    };
+
+    const workspaceJson = path.resolve(root, "workspace.json");
+    if (exists(workspaceJson)) {
+        const ws = readJson(workspaceJson);
+        for (const [name, entry] of Object.entries<any>(ws.projects || {})) {
+            if (typeof entry === "string") {
+                const file = path.resolve(root, entry, "project.json");
+                if (exists(file)) found.set(name, { configFile: file, inline: false });
+            } else {
+                found.set(name, { configFile: workspaceJson, inline: true });
+            }
+        }
+    }
+
+    const rootProject = path.resolve(root, "project.json");
+    if (exists(rootProject)) add(rootProject);
+
+    const nxJson = readJsonIfExists(path.resolve(root, "nx.json"));
+    const appsDir = path.resolve(root, nxJson?.workspaceLayout?.appsDir || "apps");
+    const walk = (dir: string, depth: number) => {
+        if (depth > 3 || !exists(dir)) return;
+        for (const ent of fs.readdirSync(dir, { withFileTypes: true })) {
+            if (!ent.isDirectory() || ent.name === "node_modules" || ent.name.startsWith(".")) continue;
+            const sub = path.join(dir, ent.name);
+            const file = path.join(sub, "project.json");
+            if (exists(file)) add(file);
+            else walk(sub, depth + 1);
+        }
+    };
+    walk(appsDir, 0);
+    return found;
+}
+
+function resolveNxProjectInfo(projectFlag?: string): ProjectInfo {
+    const projects = findNxProjects();
+    if (!projects.size) throw new Error("No Nx projects found (looked in workspace.json, project.json and apps/*/project.json)");
+
+    const nxJson = readJsonIfExists(path.resolve(cwd(), "nx.json"));
+    const load = (ref: NxProjectRef, name: string) => {
+        const data = readJson(ref.configFile);
+        return { data, project: ref.inline ? data.projects[name] : data };
+    };
+    let projectName = projectFlag || nxJson?.defaultProject;
+    if (!projectName) {
+        const names = [...projects.keys()];
+        projectName = names.find(n => load(projects.get(n)!, n).project?.projectType === "application") || names[0];
+    }
+    const ref = projects.get(projectName);
+    if (!ref) {
+        throw new Error(`Project "${projectName}" not found. Available: ${[...projects.keys()].join(", ")}`);
+    }
+
+    const { data, project } = load(ref, projectName);
+    const projectRoot = project.root !== undefined
+        ? posix(project.root)
+        : posix(path.relative(cwd(), path.dirname(ref.configFile)));
+    const sourceRoot = project.sourceRoot
+        ? posix(project.sourceRoot)
+        : (projectRoot ? `${projectRoot}/src` : "src");
+
+    return {
+        projectName,
+        sourceRoot,
+        targets: (project.targets || project.architect || {}) as TargetsObj,
+        data,
+        project,
+        configFile: ref.configFile,
+        usesTargets: !project.architect,
+        nx: true,
+    };
+}
+
+export function resolveProjectInfo(projectFlag?: string): ProjectInfo {
+    const abs = path.resolve(cwd(), "angular.json");
+    if (!exists(abs)) {
+        if (isNxWorkspace()) return resolveNxProjectInfo(projectFlag);
+        throw new Error("angular.json not found");
+    }
+
+    const data = readJson(abs);
+    const allProjects = Object.keys(data.projects || {});
+    if (!allProjects.length) throw new Error("No projects found in angular.json");
+
+    let projectName = projectFlag || data.defaultProject || allProjects[0];
+    if (!data.projects[projectName]) {
+        throw new Error(
+            `Project "${projectName}" not found. Available: ${allProjects.join(", ")}`
+        );
+    }
+
+    const project = data.projects[projectName];
+    const usesTargets = !!project.targets;
+    const targets = (project.targets || project.architect || {}) as TargetsObj;
+
+    const projectRoot = project.root ? posix(project.root) : "";
+    const sourceRoot = project.sourceRoot
+        ? posix(project.sourceRoot)
+        : (projectRoot ? `${projectRoot}/src` : "src");
+
+    return { projectName, sourceRoot, targets, data, project, configFile: abs, usesTargets, nx: false };
+}
+
+export function resolveSourceRoot(kind: ProjectKind, opts: { project?: string; sourceRoot?: string }) {
+    if (opts.sourceRoot) return opts.sourceRoot;
+    return kind === "angular-modern" ? resolveProjectInfo(opts.project).sourceRoot : "src";
+}
+
+/* --------------------------- path helpers --------------------------- */
+
+export function envDir(sourceRoot: string, folder?: string) {
+    return path.resolve(cwd(), sourceRoot, "environments", ...(folder ? [folder] : []));
+}
+export function envFilePath(sourceRoot: string, env?: string, folder?: string) {
+    const dir = envDir(sourceRoot, folder);
+    return path.resolve(dir, env ? `environment.${env}.ts` : "environment.ts");
+}
+
+function findCloneSource(sourceRoot: string, folder?: string, exclude?: string) {
+    const tryPaths = [
+        envFilePath(sourceRoot, "prod", folder),
+        envFilePath(sourceRoot, undefined, folder),
+        envFilePath(sourceRoot, "prod", undefined),
+        envFilePath(sourceRoot, undefined, undefined),
+    ];
+    for (const p of tryPaths) {
+        if (p !== exclude && exists(p)) return p;
+    }
+    return null;
+}
+
+export function findEnvironmentFiles(base: string): string[] {
+    return walkFiles(base).filter(full => {
+        const entry = path.basename(full);
+        return (/environment\.[^.]+\.ts$/.test(entry) && entry !== MODEL_FILE) || entry === "environment.ts";
+    });
+}
+
+/** `environment.uat.ts` → "uat", `f1/environment.sit.ts` → "f1/sit", `environment.ts` → "default". */
+export function envNameFromFile(base: string, absPath: string) {
+    const rel = posix(path.relative(base, absPath));
+    const dir = path.posix.dirname(rel);
+    const m = /^environment(?:\.([^.]+))?\.ts$/.exec(path.posix.basename(rel));
+    const name = m && m[1] ? m[1] : "default";
+    return dir === "." ? name : `${dir}/${name}`;
+}
+
+/** Accepts "uat", "f1/uat", "default" or a path to a .ts file. */
+export function resolveEnvironmentFile(sourceRoot: string, name: string, folder?: string) {
+    if (name.endsWith(".ts")) return path.resolve(cwd(), name);
+    const slash = name.lastIndexOf("/");
+    const dir = slash >= 0 ? sanitizeFolder(name.slice(0, slash)) : folder;
+    const env = slash >= 0 ? name.slice(slash + 1) : name;
+    return envFilePath(sourceRoot, env === "default" ? undefined : env, dir);
+}
+
+/**
+ * Environment names that have their own `.env.<name>` in the working directory,
+ * or "default" for a lone `.env` / `.env.local`.
+ */
+export function findDotEnvNames(): string[] {
+    const files = fs.readdirSync(cwd()).filter(f => fs.statSync(path.resolve(cwd(), f)).isFile());
+    const names = files
+        .map(f => /^\.env\.([^.]+)$/.exec(f)?.[1])
+        .filter((n): n is string => !!n && n !== "local");
+    if (!names.length && files.some(f => f === ".env" || f === ".env.local")) return ["default"];
+    return names;
+}
+
+/* -------------------- environment.ts object parsing ----------------- */
+
+// A small, tolerant reader for the object literal behind `export const environment`.
+// It keeps source offsets so callers can report on (or edit) hand-written files,
+// and keeps anything that is not a plain literal as raw expression text.
+
+type LiteralNode =
+    | { kind: "object"; start: number; end: number; props: PropNode[] }
+    | { kind: "array"; start: number; end: number; items: LiteralNode[] }
+    | { kind: "value"; start: number; end: number; value: string | number | boolean | null }
+    | { kind: "expr"; start: number; end: number; text: string };
+
+type PropNode = {
+    key: string;
+    start: number;
+    end: number;
+    value: LiteralNode;
+};
+
+class RawExpression {
+    constructor(public readonly text: string) {}
+    toString() { return this.text; }
+}
+
+class LiteralParser {
+    pos = 0;
+    constructor(private readonly src: string) {}
+
+    fail(msg: string): never {
+        const line = this.src.slice(0, this.pos).split("\n").length;
+        throw new Error(`${msg} (line ${line})`);
+    }
+
+    skipTrivia() {
+        const s = this.src;
+        while (this.pos < s.length) {
+            const c = s[this.pos];
+            if (/\s/.test(c)) { this.pos++; continue; }
+            if (c === "/" && s[this.pos + 1] === "/") {
+                const nl = s.indexOf("\n", this.pos);
+                this.pos = nl === -1 ? s.length : nl + 1;
+                continue;
+            }
+            if (c === "/" && s[this.pos + 1] === "*") {
+                const close = s.indexOf("*/", this.pos + 2);
+                this.pos = close === -1 ? s.length : close + 2;
+                continue;
+            }
+            break;
+        }
+    }
+
+    peek() { this.skipTrivia(); return this.src[this.pos]; }
+
+    readString(): string {
+        const s = this.src;
+        const quote = s[this.pos++];
+        let out = "";
+        while (this.pos < s.length) {
+            const c = s[this.pos++];
+            if (c === quote) return out;
+            if (c === "\\") {
+                const e = s[this.pos++];
+                if (e === "n") out += "\n";
+                else if (e === "t") out += "\t";
+                else if (e === "r") out += "\r";
+                else if (e === "b") out += "\b";
+                else if (e === "f") out += "\f";
+                else if (e === "v") out += "\v";
+                else if (e === "0") out += "\0";
+                else if (e === "x") { out += String.fromCharCode(parseInt(s.substr(this.pos, 2), 16)); this.pos += 2; }
+                else if (e === "u" && s[this.pos] === "{") {
+                    const close = s.indexOf("}", this.pos);
+                    out += String.fromCodePoint(parseInt(s.slice(this.pos + 1, close), 16));
+                    this.pos = close + 1;
+                } else if (e === "u") { out += String.fromCharCode(parseInt(s.substr(this.pos, 4), 16)); this.pos += 4; }
+                else if (e === "\r") { if (s[this.pos] === "\n") this.pos++; }
+                else if (e !== "\n") out += e;
+                continue;
+            }
+            if (quote === "`" && c === "$" && s[this.pos] === "{") this.fail("Template expressions are not literals");
+            out += c;
+        }
+        return this.fail("Unterminated string");
+    }
+
+    // Skip to the end of an arbitrary expression: the next `,` / `}` / `]` at depth 0.
+    skipExpression() {
+        const s = this.src;
+        let depth = 0;
+        while (this.pos < s.length) {
+            const c = s[this.pos];
+            if (c === "'" || c === "\"" || c === "`") { this.skipQuoted(); continue; }
+            if (c === "/" && (s[this.pos + 1] === "/" || s[this.pos + 1] === "*")) { this.skipTrivia(); continue; }
+            if (c === "(" || c === "[" || c === "{") depth++;
+            else if (c === ")" || c === "]" || c === "}") {
+                if (depth === 0) return;
+                depth--;
+            } else if (c === "," && depth === 0) return;
+            this.pos++;
+        }
+    }
+
+    skipQuoted() {
+        const s = this.src;
+        const quote = s[this.pos++];
+        while (this.pos < s.length) {
+            const c = s[this.pos++];
+            if (c === "\\") { this.pos++; continue; }
+            if (c === quote) return;
+            if (quote === "`" && c === "$" && s[this.pos] === "{") {
+                this.pos++;
+                let depth = 1;
+                while (this.pos < s.length && depth) {
+                    const d = s[this.pos];
+                    if (d === "'" || d === "\"" || d === "`") { this.skipQuoted(); continue; }
+                    if (d === "{") depth++;
+                    else if (d === "}") depth--;
+                    this.pos++;
+                }
+            }
+        }
+    }
+
+    trimmedEnd(from: number) {
+        let end = this.pos;
+        while (end > from && /\s/.test(this.src[end - 1])) end--;
+        return end;
+    }
+
+    parseValue(): LiteralNode {
+        const c = this.peek();
+        const start = this.pos;
+        if (c === "{") return this.parseObject();
+        if (c === "[") return this.parseArray();
+        if (c === "'" || c === "\"" || c === "`") {
+            try {
+                const value = this.readString();
+                const end = this.pos;
+                this.skipTrivia();
+                const next = this.src[this.pos];
+                if (next === "," || next === "}" || next === "]" || next === undefined) {
+                    return { kind: "value", start, end, value };
+                }
+            } catch { /* not a plain string literal */ }
+            this.pos = start;
+            return this.parseExpression(start);
+        }
+        const m = /^(?:-?(?:0[xX][0-9a-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|(?:\d[\d_]*)?\.?\d[\d_]*(?:[eE][+-]?\d+)?)|true|false|null)\b/
+            .exec(this.src.slice(this.pos));
+        if (m) {
+            this.pos += m[0].length;
+            this.skipTrivia();
+            const next = this.src[this.pos];
+            if (next === "," || next === "}" || next === "]") {
+                const t = m[0];
+                const value = t === "true" ? true : t === "false" ? false : t === "null" ? null
+                    : (t.startsWith("-") ? -Number(t.slice(1).replace(/_/g, "")) : Number(t.replace(/_/g, "")));
+                return { kind: "value", start, end: start + t.length, value };
+            }
+            this.pos = start;
+        }
+        return this.parseExpression(start);
+    }
+
+    parseExpression(start: number): LiteralNode {
+        this.skipExpression();
+        const end = this.trimmedEnd(start);
+        if (end === start) this.fail("Expected a value");
+        return { kind: "expr", start, end, text: this.src.slice(start, end) };
+    }
+
+    parseArray(): LiteralNode {
+        const start = this.pos++;
+        const items: LiteralNode[] = [];
+        while (this.peek() !== "]") {
+            if (this.pos >= this.src.length) this.fail("Unterminated array");
+            items.push(this.parseValue());
+            if (this.peek() === ",") this.pos++;
+            else if (this.peek() !== "]") this.fail("Expected , or ]");
+        }
+        this.pos++;
+        return { kind: "array", start, end: this.pos, items };
+    }
+
+    parseKey(): string | null {
+        const c = this.peek();
+        if (c === "'" || c === "\"") return this.readString();
+        if (c === "[") { this.skipExpression(); return null; }
+        const m = /^[A-Za-z_$][\w$]*|^\d+(\.\d+)?/.exec(this.src.slice(this.pos));
+        if (!m) this.fail("Expected a property name");
+        this.pos += m![0].length;
+        return m![0];
+    }
+
+    parseObject(): LiteralNode & { kind: "object" } {
+        const start = this.pos++;
+        const props: PropNode[] = [];
+        while (this.peek() !== "}") {
+            if (this.pos >= this.src.length) this.fail("Unterminated object");
+            const propStart = this.pos;
+            if (this.src.startsWith("...", this.pos)) {
+                // spread: nothing we can resolve statically
+                this.skipExpression();
+            } else {
+                const key = this.parseKey();
+                const next = this.peek();
+                if (key !== null && next === ":") {
+                    this.pos++;
+                    const value = this.parseValue();
+                    props.push({ key, start: propStart, end: value.end, value });
+                } else if (key !== null && (next === "," || next === "}")) {
+                    // shorthand `{ apiUrl }`
+                    const end = this.trimmedEnd(propStart);
+                    props.push({ key, start: propStart, end, value: { kind: "expr", start: propStart, end, text: key } });
+                } else {
+                    // computed keys, methods, getters
+                    this.skipExpression();
+                }
+            }
+            if (this.peek() === ",") this.pos++;
+            else if (this.peek() !== "}") this.fail("Expected , or }");
+        }
+        this.pos++;
+        return { kind: "object", start, end: this.pos, props };
+    }
+}
+
+const ENV_DECL_RE = /export\s+const\s+environment\b\s*(?::[^=]+)?=\s*/;
+
+function parseEnvironmentSource(source: string) {
+    const m = ENV_DECL_RE.exec(source);
+    if (!m) throw new Error("No `export const environment = {...}` declaration found");
+    const parser = new LiteralParser(source);
+    parser.pos = m.index + m[0].length;
+    if (parser.peek() !== "{") parser.fail("`environment` is not an object literal");
+    return parser.parseObject();
+}
+
+function literalToValue(node: LiteralNode): any {
+    switch (node.kind) {
+        case "object": {
+            const out: Record<string, any> = {};
+            for (const p of node.props) out[p.key] = literalToValue(p.value);
+            return out;
+        }
+        case "array": return node.items.map(literalToValue);
+        case "value": return node.value;
+        case "expr": return new RawExpression(node.text);
+    }
+}
+
+export function readEnvironmentValues(absPath: string): Record<string, any> {
+    const source = readText(absPath);
+    return literalToValue(parseEnvironmentSource(source));
+}
+
+/* -------------------- environment.ts object editing ----------------- */
+
+type TextEdit = { start: number; end: number; text: string };
+
+function applyEdits(source: string, edits: TextEdit[]) {
+    let out = source;
+    for (const e of [...edits].sort((a, b) => b.start - a.start)) {
+        out = out.slice(0, e.start) + e.text + out.slice(e.end);
+    }
+    return out;
+}
+
+const tsKey = (k: string) => (/^[A-Za-z_$][\w$]*$/.test(k) ? k : JSON.stringify(k));
+
+/** TypeScript source for a value: bare keys, one property per line, strings in the given quote. */
+function toTsLiteral(value: any, quote: string, indent = ""): string {
+    if (isPlainObject(value)) {
+        const entries = Object.entries(value);
+        if (!entries.length) return "{}";
+        const inner = indent + "  ";
+        const lines = entries.map(([k, v]) => `${inner}${tsKey(k)}: ${toTsLiteral(v, quote, inner)},`);
+        return `{\n${lines.join("\n")}\n${indent}}`;
+    }
+    if (Array.isArray(value)) return `[${value.map(v => toTsLiteral(v, quote, indent)).join(", ")}]`;
+    if (typeof value !== "string" || quote === "\"") return JSON.stringify(value);
+    const body = JSON.stringify(value).slice(1, -1).replace(/\\"/g, "\"").replace(/'/g, "\\'");
+    return `'${body}'`;
+}
+
+/** The quote character the file already uses for most of its string values. */
+function preferredQuote(source: string, node: LiteralNode): string {
+    let single = 0, double = 0;
+    (function visit(n: LiteralNode) {
+        if (n.kind === "object") n.props.forEach(p => visit(p.value));
+        else if (n.kind === "array") n.items.forEach(visit);
+        else if (n.kind === "value" && typeof n.value === "string") {
+            if (source[n.start] === "'") single++; else double++;
+        }
+    })(node);
+    return single > double ? "'" : "\"";
+}
+
+/**
+ * Add or update keys of `export const environment = {...}` in place, descending into
+ * nested object literals. Only the touched values change; other keys, comments,
+ * imports and layout are kept.
+ */
+function mergeEnvironmentSource(source: string, values: Record<string, any>): string {
+    const obj = parseEnvironmentSource(source);
+    const quote = preferredQuote(source, obj);
+    const eol = source.includes("\r\n") ? "\r\n" : "\n";
+    return applyEdits(source, mergeObjectEdits(source, obj, values, quote, eol));
+}
+
+const lineIndent = (source: string, at: number) =>
+    /^[ \t]*/.exec(source.slice(source.lastIndexOf("\n", at - 1) + 1))![0];
+
+function mergeObjectEdits(
+    source: string,
+    obj: LiteralNode & { kind: "object" },
+    values: Record<string, any>,
+    quote: string,
+    eol: string
+): TextEdit[] {
+    const edits: TextEdit[] = [];
+    const added: [string, any][] = [];
+
+    for (const [key, value] of Object.entries(values)) {
+        const prop = [...obj.props].reverse().find(p => p.key === key);
+        if (!prop) { added.push([key, value]); continue; }
+        if (isPlainObject(value) && prop.value.kind === "object") {
+            edits.push(...mergeObjectEdits(source, prop.value, value, quote, eol));
+            continue;
+        }
+        const text = toTsLiteral(value, quote, lineIndent(source, prop.start)).replace(/\n/g, eol);
+        if (prop.value.start === prop.start) edits.push({ start: prop.start, end: prop.end, text: `${tsKey(key)}: ${text}` });
+        else edits.push({ start: prop.value.start, end: prop.value.end, text });
+    }
+    if (!added.length) return edits;
+
+    const closeIndent = lineIndent(source, obj.end - 1);
+    const multiline = source.slice(obj.start, obj.end).includes("\n");
+    const last = obj.props[obj.props.length - 1];
+    const entry = ([k, v]: [string, any], indent: string) =>
+        `${tsKey(k)}: ${toTsLiteral(v, quote, indent).replace(/\n/g, eol)}`;
+
+    if (!last) {
+        const indent = closeIndent + "  ";
+        const body = added.map(a => `${eol}${indent}${entry(a, indent)},`).join("");
+        edits.push({ start: obj.start, end: obj.end, text: `{${body}${eol}${closeIndent}}` });
+        return edits;
+    }
+
+    const scan = new LiteralParser(source);
+    scan.pos = last.end;
+    const hasComma = scan.peek() === ",";
+    let at = hasComma ? scan.pos + 1 : last.end;
+
+    if (!multiline) {
+        const indent = lineIndent(source, last.start);
+        const text = hasComma
+            ? added.map(a => ` ${entry(a, indent)},`).join("")
+            : added.map(a => `, ${entry(a, indent)}`).join("");
+        edits.push({ start: at, end: at, text });
+        return edits;
+    }
+
+    const indent = lineIndent(source, last.start);
+    // keep a trailing `// comment` attached to the line it annotates
+    at += /^[ \t]*(?:\/\/[^\r\n]*|\/\*.*?\*\/[ \t]*)?/.exec(source.slice(at))![0].length;
+    const text = added
+        .map((a, i) => `${eol}${indent}${entry(a, indent)}${hasComma || i < added.length - 1 ? "," : ""}`)
+        .join("");
+    edits.push({ start: at, end: at, text });
+    // pushed after the insertion so it lands before it when both sit at last.end
+    if (!hasComma) edits.push({ start: last.end, end: last.end, text: "," });
+    return edits;
+}
+
+/* ------------------------------ schema ------------------------------ */
+
+type SchemaType = "string" | "number" | "boolean" | "array" | "object";
+type KeySchema = {
+    type?: SchemaType;
+    required?: boolean;
+    enum?: any[];
+    default?: any;
+    description?: string;
+};
+type EnvSchema = {
+    keys: Record<string, KeySchema>;
+    allowUnknown?: boolean;
+    secrets?: { allow?: string[]; deny?: string[] };
+};
+export type SchemaIssue = { key: string; message: string };
+
+export const SCHEMA_FILE = "envx.schema.json";
+const SCHEMA_TYPES: SchemaType[] = ["string", "number", "boolean", "array", "object"];
+
+export function loadSchema(explicitPath?: string): EnvSchema | null {
+    const abs = path.resolve(cwd(), explicitPath || SCHEMA_FILE);
+    if (!exists(abs)) {
+        if (explicitPath) throw new Error(`Schema file not found: ${explicitPath}`);
+        return null;
+    }
+    let data: any;
+    try { data = readJson(abs); } catch (e: any) {
+        throw new Error(`Invalid JSON in ${relFromCwd(abs)}: ${e.message}`);
+    }
+    if (!data || typeof data.keys !== "object" || Array.isArray(data.keys)) {
+        throw new Error(`${relFromCwd(abs)} must contain a "keys" object`);
+    }
+    for (const [k, spec] of Object.entries<KeySchema>(data.keys)) {
+        if (spec.type && !SCHEMA_TYPES.includes(spec.type)) {
+            throw new Error(`${relFromCwd(abs)}: "${k}" has unknown type "${spec.type}" (use ${SCHEMA_TYPES.join(", ")})`);
+        }
+    }
+    return data as EnvSchema;
+}
+
+/** Schema `type`s as explicit value types, so values from every source (.env files too) are typed. */
+export function schemaValueTypes(schemaPath?: string): Record<string, ValueType> {
+    const out: Record<string, ValueType> = {};
+    for (const [key, spec] of Object.entries(loadSchema(schemaPath)?.keys || {})) {
+        if (spec.type) out[key] = spec.type === "array" || spec.type === "object" ? "json" : spec.type;
+    }
+    return out;
+}
+
+function typeOfValue(v: any): SchemaType | "null" {
+    if (v === null) return "null";
+    if (Array.isArray(v)) return "array";
+    return typeof v as SchemaType;
+}
+
+const normalizeKey = (k: string) => k.toLowerCase().replace(/[_\-.]/g, "");
+
+/**
+ * Validate one environment against the schema. `fromText` marks raw .env values:
+ * those are strings on disk, so an untyped "string" key accepts anything; explicitly
+ * typed keys and other types are checked after the same coercion `gen` applies.
+ */
+export function validateAgainstSchema(
+    values: Record<string, any>,
+    schema: EnvSchema,
+    fromText: boolean,
+    typing: ValueTyping = {}
+): SchemaIssue[] {
+    const issues: SchemaIssue[] = [];
+    const known = Object.keys(schema.keys);
+
+    for (const [key, spec] of Object.entries(schema.keys)) {
+        if (!(key in values)) {
+            if (spec.required !== false && spec.default === undefined) {
+                issues.push({ key, message: "required key is missing" });
+            }
+            continue;
+        }
+        const raw = values[key];
+        if (raw instanceof RawExpression) continue; // not statically known
+        const typed = spec.type !== "string" || !!typing.valueTypes?.[key];
+        const value = fromText && typed ? parseValue(String(raw), key, typing) : raw;
+
+        if (spec.type && typeOfValue(value) !== spec.type) {
+            issues.push({ key, message: `expected ${spec.type}, got ${typeOfValue(value)} (${displayValue(key, value)})` });
+            continue;
+        }
+        if (spec.enum && !spec.enum.some(e => JSON.stringify(e) === JSON.stringify(value))) {
+            issues.push({ key, message: `${displayValue(key, value)} is not one of ${spec.enum.map(e => JSON.stringify(e)).join(", ")}` });
+        }
+    }
+
+    if (!schema.allowUnknown) {
+        for (const key of Object.keys(values)) {
+            if (key in schema.keys || key === "production") continue;
+            const close = known.find(k => normalizeKey(k) === normalizeKey(key));
+            issues.push({ key, message: close ? `unknown key (did you mean ${close}?)` : "unknown key" });
+        }
+    }
+    return issues;
+}
+
+/** Fill schema defaults into raw key/value pairs and refuse to continue on schema errors. */
+function applySchema(kv: Record<string, string>, schemaPath?: string, typing: ValueTyping = {}): Record<string, string> {
+    const schema = loadSchema(schemaPath);
+    if (!schema) return kv;
+    const out = { ...kv };
+    for (const [key, spec] of Object.entries(schema.keys)) {
+        if (!(key in out) && spec.default !== undefined) {
+            out[key] = typeof spec.default === "string" ? spec.default : JSON.stringify(spec.default);
+        }
+    }
+    const issues = validateAgainstSchema(out, schema, true, typing);
+    if (issues.length) {
+        for (const i of issues) log.err(`  ${i.key}: ${i.message}`);
+        throw new Error(`Values do not match ${schemaPath || SCHEMA_FILE} (${issues.length} problem(s)); nothing was written`);
+    }
+    return out;
+}
+
+/* -------------------------- secret guardrails ----------------------- */
+
+// Everything gen writes ends up in a browser bundle, so server-side secrets must not get in.
+
+const DEFAULT_DENY_KEYS = [
+    "*SECRET*", "*PASSWORD*", "*PASSWD*", "*PRIVATE_KEY*", "*_TOKEN", "*CREDENTIALS*", "*CONNECTION_STRING*",
+];
+
+const SECRET_VALUE_PATTERNS: [string, RegExp][] = [
+    ["JWT", /^eyJ[\w-]+\.eyJ[\w-]+\.[\w-]+$/],
+    ["AWS access key", /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/],
+    ["PEM private key", /-----BEGIN [A-Z ]*PRIVATE KEY-----/],
+    ["GitHub token", /\bgh[pousr]_[A-Za-z0-9]{36,}\b/],
+    ["Slack token", /\bxox[abposr]-[A-Za-z0-9-]{10,}/],
+    ["Stripe secret key", /\b[rs]k_live_[A-Za-z0-9]{16,}\b/],
+];
+
+type SecretPolicy = { allow: string[]; deny: string[] };
+
+export function loadSecretPolicy(opts: { allowKey?: string[]; denyKey?: string[]; schema?: string } = {}): SecretPolicy {
+    const schema = loadSchema(opts.schema);
+    return {
+        allow: [...(schema?.secrets?.allow || []), ...(opts.allowKey || [])],
+        deny: [...DEFAULT_DENY_KEYS, ...(schema?.secrets?.deny || []), ...(opts.denyKey || [])],
+    };
+}
+
+/** `clientSecret` / `auth.client-secret` → `CLIENT_SECRET` style, so one pattern covers every spelling. */
+const toSnakeUpper = (k: string) => k.replace(/([a-z0-9])([A-Z])/g, "$1_$2").replace(/[.\-]/g, "_").toUpperCase();
+
+function keyMatches(key: string, patterns: string[]) {
+    const names = [toSnakeUpper(key), toSnakeUpper(key.split(/[.]/).pop()!)];
+    return patterns.some(p => {
+        const re = new RegExp("^" + toSnakeUpper(p).split("*").map(escapeRegExp).join(".*") + "$");
+        return names.some(n => re.test(n));
+    });
+}
+
+function shannonEntropy(s: string) {
+    const counts = new Map<string, number>();
+    for (const c of s) counts.set(c, (counts.get(c) || 0) + 1);
+    let h = 0;
+    for (const n of counts.values()) h -= (n / s.length) * Math.log2(n / s.length);
+    return h;
+}
+
+/** Why a value looks like a credential, or null. */
+function scanSecretValue(value: string): string | null {
+    for (const [name, re] of SECRET_VALUE_PATTERNS) if (re.test(value)) return `matches the ${name} format`;
+    const t = value.trim();
+    if (/^[0-9a-f]{32,}$/i.test(t) && shannonEntropy(t) > 3) return "looks like a hex secret (high entropy)";
+    if (/^[A-Za-z0-9+/=_-]{32,}$/.test(t) && shannonEntropy(t) > 4.2) return "looks like a random token (high entropy)";
+    return null;
+}
+
+function secretReason(key: string, value: string, policy: SecretPolicy): string | null {
+    if (keyMatches(key, policy.allow)) return null;
+    if (keyMatches(key, policy.deny)) return "key matches a secret pattern";
+    return scanSecretValue(value);
+}
+
+function maskValue(value: string) {
+    return `****(${value.length} chars)`;
+}
+
+/** Value for log output: secrets are masked, everything else is printed as-is. */
+export function displayValue(key: string, v: any, policy: SecretPolicy = { allow: [], deny: DEFAULT_DENY_KEYS }): string {
+    const text = formatValue(v);
+    if (v instanceof RawExpression) return text;
+    return secretReason(key, typeof v === "string" ? v : text, policy) ? maskValue(text) : text;
+}
+
+// `key: value`, `"key": value` and `KEY=value` lines of environment files, JSON and .env output.
+const ENTRY_LINE = /^(\s*["'`]?)([\w.$-]+)(["'`]?\s*[:=]\s*)(.*?)(\s*[,;]?\s*)$/;
+
+/** A line of file content for diffs: the value is masked when its key or value looks like a secret. */
+function maskSecretLine(line: string, policy: SecretPolicy = { allow: [], deny: DEFAULT_DENY_KEYS }): string {
+    const m = ENTRY_LINE.exec(line);
+    if (!m) return scanSecretValue(line) ? line.replace(/\S.*\S|\S/, t => maskValue(t)) : line;
+    const [, lead, key, sep, value, tail] = m;
+    if (!value || /^([{[]|(string|number|boolean|unknown)(\[\])?)$/.test(value)) return line; // objects, model types
+    const text = value.replace(/^(["'`])(.*)\1$/, "$2");
+    return secretReason(key, text, policy) ? lead + key + sep + maskValue(text) + tail : line;
+}
+
+/** Refuse to write values that look like server-side secrets unless their key is explicitly allowed. */
+function guardSecrets(kv: Record<string, string>, policy: SecretPolicy) {
+    const blocked = Object.entries(kv)
+        .map(([k, v]) => ({ key: k, value: v, reason: secretReason(k, v, policy) }))
+        .filter(b => b.reason);
+    if (!blocked.length) return;
+    for (const b of blocked) log.err(`  ${b.key} = ${maskValue(b.value)}: ${b.reason}`);
+    throw new InputError(
+        `Refusing to write ${blocked.length} value(s) that look like secrets into a browser bundle. ` +
+        `If they are meant to be public, allow them with --allow-key ${blocked.map(b => b.key).join(" ")}`
+    );
+}
+
+/* --------------------------- value pipeline ------------------------- */
+
+type ValueOptions = KeyOptions & {
+    envFile?: string[];
+    schema?: string;
+    allowKey?: string[];
+    denyKey?: string[];
+    explain?: boolean;
+    fromProcessEnv?: boolean;
+    prefix?: string;
+    require?: string[];
+};
+
+/** `--require` keys may be given with or without the prefix; empty values count as missing. */
+function checkRequired(values: Record<string, string>, opts: ValueOptions) {
+    const prefix = opts.fromProcessEnv ? opts.prefix ?? "" : "";
+    const missing = (opts.require ?? [])
+        .map(k => prefix && k.startsWith(prefix) && k !== prefix ? k.slice(prefix.length) : k)
+        .filter(k => values[k] === undefined || values[k] === "");
+    if (!missing.length) return;
+    const names = missing.map(k => prefix ? `${k} (${prefix}${k})` : k).join(", ");
+    throw new InputError(`Missing required value(s): ${names}`);
+}
+
+/**
+ * Everything between the sources and a writer: layer env files, prefixed process
+ * variables and inline values, expand `${VAR}`, check required keys, apply the schema,
+ * then refuse key conflicts and secrets.
+ */
+export function resolveEnvValues(
+    envName: string,
+    inline: Record<string, string>,
+    inlineSource: string,
+    opts: ValueOptions,
+    quiet = false
+): Record<string, string> {
+    if (opts.prefix !== undefined && !opts.fromProcessEnv) throw new InputError("--prefix only applies with --from-process-env.");
+    let layered = loadEnvFile(envName, opts.envFile, quiet);
+    if (opts.fromProcessEnv) {
+        const fromEnv = loadProcessEnv(opts.prefix, quiet);
+        layered = { values: { ...layered.values, ...fromEnv.values }, sources: { ...layered.sources, ...fromEnv.sources } };
+    }
+    const resolved = expandVariables(layerValues(layered, inline, inlineSource));
+    checkRequired(resolved.values, opts);
+    const policy = loadSecretPolicy(opts);
+    if (opts.explain) explainValues(resolved, policy);
+    let kv: Record<string, string> = resolved.values;
+    if (Object.keys(kv).length) kv = applySchema(kv, opts.schema, opts);
+    buildValues(kv, opts); // surface key conflicts before anything is written
+    guardSecrets(kv, policy);
+    return kv;
+}
+
+/* ------------------------------- diff ------------------------------- */
+
+type EnvDiff = {
+    added: string[];
+    removed: string[];
+    changed: string[];
+    same: string[];
+};
+
+/** Nested objects become dotted (or `delimiter`-joined) keys; arrays and expressions stay leaf values. */
+export function flattenValues(obj: Record<string, any>, prefix = "", delimiter = "."): Record<string, any> {
+    const out: Record<string, any> = {};
+    for (const [k, v] of Object.entries(obj)) {
+        const key = prefix ? `${prefix}${delimiter}${k}` : k;
+        if (v && typeof v === "object" && !Array.isArray(v) && !(v instanceof RawExpression)) {
+            Object.assign(out, flattenValues(v, key, delimiter));
+        } else {
+            out[key] = v;
+        }
+    }
+    return out;
+}
+
+function formatValue(v: any): string {
+    if (v === undefined) return "—";
+    if (v instanceof RawExpression) return v.text;
+    return JSON.stringify(v, (_k, x) => (x instanceof RawExpression ? x.text : x));
+}
+
+export const sameValue = (a: any, b: any) => formatValue(a) === formatValue(b);
+
+export function diffEnvironments(a: Record<string, any>, b: Record<string, any>): EnvDiff {
+    const diff: EnvDiff = { added: [], removed: [], changed: [], same: [] };
+    for (const k of Object.keys(a)) {
+        if (!(k in b)) diff.removed.push(k);
+        else if (sameValue(a[k], b[k])) diff.same.push(k);
+        else diff.changed.push(k);
+    }
+    for (const k of Object.keys(b)) if (!(k in a)) diff.added.push(k);
+    return diff;
+}
+
+export const truncate = (s: string, n: number) => (s.length > n ? s.slice(0, n - 1) + "…" : s);
+
+/* ------------------------------ export ------------------------------ */
+
+export const EXPORT_FORMATS = ["dotenv", "json", "configmap", "docker"] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export type ExportOptions = {
+    format: ExportFormat;
+    /** Joins nested keys, e.g. "__" turns api.baseUrl into api__baseUrl. Default "__". */
+    keyDelimiter?: string;
+    /** UPPER_SNAKE_CASE key segments (apiUrl → API_URL), the reverse of `gen --camel-case`. */
+    upperCase?: boolean;
+    /** metadata.name of the ConfigMap. */
+    name?: string;
+};
+
+/** `apiUrl` → `API_URL`, `baseURL` → `BASE_URL`. */
+const upperSegment = (seg: string) => seg.replace(/([a-z0-9])([A-Z])/g, "$1_$2").replace(/[-\s]+/g, "_").toUpperCase();
+
+/** Quote a value so that dotenv, and `${VAR}` expansion in `gen`, read it back unchanged. */
+function dotenvValue(key: string, value: string) {
+    const v = value.replace(/\$\{/g, "\\${");
+    if (/^[^\s#'"`]*$/.test(v)) return v;
+    if (!/['\r\n]/.test(v)) return `'${v}'`;
+    // dotenv turns \n inside double quotes into a newline and has no escape for a backslash
+    if (!/["\\]/.test(v)) return `"${v.replace(/\r/g, "\\r").replace(/\n/g, "\\n")}"`;
+    if (!/[`\r]/.test(v)) return `\`${v}\``;
+    throw new InputError(`${key} cannot be quoted so that a .env file reads it back unchanged`);
+}
+
+/**
+ * Environment values as a .env file, flat JSON, Kubernetes ConfigMap or `docker --env-file`.
+ * Expressions (`process.env.X`, imported constants) have no static value; they are skipped
+ * and returned in `skipped`.
+ */
+export function exportValues(values: Record<string, any>, opts: ExportOptions): { content: string; skipped: string[] } {
+    const delimiter = opts.keyDelimiter ?? "__";
+    const flat: Record<string, any> = {};
+    const skipped: string[] = [];
+    for (const [k, v] of Object.entries(flattenValues(values, "", "\0"))) {
+        const segments = k.split("\0");
+        const key = (opts.upperCase ? segments.map(upperSegment) : segments).join(delimiter);
+        if (v instanceof RawExpression) skipped.push(segments.join("."));
+        else flat[key] = v;
+    }
+    const text = (v: any) => (typeof v === "string" ? v : JSON.stringify(v));
+
+    switch (opts.format) {
+        case "json":
+            return { content: JSON.stringify(flat, null, 2) + "\n", skipped };
+        case "dotenv":
+            return { content: Object.entries(flat).map(([k, v]) => `${k}=${dotenvValue(k, text(v))}\n`).join(""), skipped };
+        case "docker": {
+            // docker reads everything after "=" literally, up to the end of the line
+            const lines = Object.entries(flat).map(([k, v]) => {
+                if (/[\r\n]/.test(text(v))) throw new InputError(`${k} spans several lines, which a docker env-file cannot hold`);
+                return `${k}=${text(v)}\n`;
+            });
+            return { content: lines.join(""), skipped };
+        }
+        case "configmap": {
+            const bad = Object.keys(flat).filter(k => !/^[-._a-zA-Z0-9]+$/.test(k));
+            if (bad.length) throw new InputError(`Not valid ConfigMap keys: ${bad.join(", ")}. Use --key-delimiter "__" or "."`);
+            const name = opts.name || "app-config";
+            if (!/^[a-z0-9]([-.a-z0-9]*[a-z0-9])?$/.test(name)) {
+                throw new InputError(`"${name}" is not a valid ConfigMap name (lowercase letters, digits, "-" and ".")`);
+            }
+            const data = Object.entries(flat).map(([k, v]) => `  ${k}: ${JSON.stringify(text(v))}`);
+            const content = [
+                "apiVersion: v1",
+                "kind: ConfigMap",
+                "metadata:",
+                `  name: ${name}`,
+                data.length ? "data:" : "data: {}",
+                ...data,
+            ].join("\n");
+            return { content: content + "\n", skipped };
+        }
+        default:
+            throw new InputError(`Unknown format "${opts.format}". Use one of: ${EXPORT_FORMATS.join(", ")}`);
+    }
+}
+
+/* ------------------------ Angular config writers -------------------- */
+
+/** The `replace` path existing configurations use, else the `ng generate environments` location. */
+function baselineReplacePath(targets: any, sourceRoot: string) {
+    for (const cfg of Object.values<any>(targets.build?.configurations || {})) {
+        for (const fr of Array.isArray(cfg?.fileReplacements) ? cfg.fileReplacements : []) {
+            if (typeof fr?.replace === "string" && /(^|\/)environment\.ts$/.test(fr.replace)) return fr.replace;
+        }
+    }
+    return `${posix(sourceRoot)}/environments/environment.ts`;
+}
+
+/** Angular CLI `builder`, or Nx `executor`. */
+function builderOf(target: any): string {
+    return target?.builder || target?.executor || "";
+}
+
+/** `buildTarget` for the application builder, browser-esbuild on Angular 17+ and newer dev-servers, else `browserTarget`. */
+function buildTargetKey(targets: any, target: any): "buildTarget" | "browserTarget" {
+    const build = builderOf(targets.build);
+    if (/:application$/.test(build)) return "buildTarget";
+    // browser-esbuild came with Angular 16, whose dev-server only knows browserTarget
+    if (/:browser-esbuild$/.test(build) && (angularCoreMajor() ?? 0) >= 17) return "buildTarget";
+    if (/^@angular\/build:|^@nx\/angular:dev-server$/.test(builderOf(target))) return "buildTarget";
+    const configs = [target?.options, ...Object.values<any>(target?.configurations || {})];
+    if (configs.some(c => c && "buildTarget" in c)) return "buildTarget";
+    return "browserTarget";
+}
+
+function upsertFileReplacement(cfg: any, entry: { replace: string; with: string }) {
+    const fr = Array.isArray(cfg.fileReplacements) ? cfg.fileReplacements : [];
+    const idx = fr.findIndex((x: any) => x?.replace === entry.replace);
+    if (idx >= 0) fr[idx] = entry; else fr.push(entry);
+    cfg.fileReplacements = fr;
+}
+
+/**
+ * Add configuration `envName` to every target that needs one: build (fileReplacements),
+ * serve, and where present extract-i18n, karma test, and the pre-17 server/serve-ssr/prerender
+ * targets. Mutates `targets`; returns one line per wired target.
+ */
+function wireAngularTargets(
+    envName: string,
+    envFileAbs: string,
+    projectName: string,
+    sourceRoot: string,
+    targets: any
+): string[] {
+    const entry = { replace: baselineReplacePath(targets, sourceRoot), with: posix(path.relative(cwd(), envFileAbs)) };
+    const ref = (t: string) => `${projectName}:${t}:${envName}`;
+    const config = (name: string) => {
+        const t = targets[name] = targets[name] || {};
+        t.configurations = t.configurations || {};
+        return (t.configurations[envName] = t.configurations[envName] || {});
+    };
+    // other options in the entry (port, proxyConfig, ...) are the user's; only the ref key is envx's
+    const setRef = (cfg: any, key: "buildTarget" | "browserTarget") => {
+        delete cfg[key === "buildTarget" ? "browserTarget" : "buildTarget"];
+        cfg[key] = ref("build");
+    };
+    const wired: string[] = [];
+
+    upsertFileReplacement(config("build"), entry);
+    wired.push(`build:   replace ${entry.replace} with ${entry.with}`);
+
+    const serveKey = buildTargetKey(targets, targets.serve);
+    setRef(config("serve"), serveKey);
+    wired.push(`serve:   ${serveKey} ${ref("build")}`);
+
+    if (targets["extract-i18n"]) {
+        const key = buildTargetKey(targets, targets["extract-i18n"]);
+        setRef(config("extract-i18n"), key);
+        wired.push(`extract-i18n: ${key} ${ref("build")}`);
+    }
+    if (/:karma$/.test(builderOf(targets.test))) {
+        upsertFileReplacement(config("test"), entry);
+        wired.push(`test:    replace ${entry.replace} with ${entry.with}`);
+    }
+    if (targets.server) {
+        upsertFileReplacement(config("server"), entry);
+        wired.push(`server:  replace ${entry.replace} with ${entry.with}`);
+    }
+    for (const name of ["serve-ssr", "prerender"]) {
+        if (!targets[name]) continue;
+        Object.assign(config(name), { browserTarget: ref("build"), serverTarget: ref("server") });
+        wired.push(`${name}: browserTarget ${ref("build")}, serverTarget ${ref("server")}`);
+    }
+    return wired;
+}
+
+export function updateAngularJson(
+    envName: string,
+    envFileAbs: string,
+    info: ProjectInfo,
+    sourceRoot: string,
+    doBackup: boolean,
+    dryRun: boolean
+) {
+    const { project, projectName, configFile, data } = info;
+    const targets = project.targets || project.architect || (project[info.usesTargets ? "targets" : "architect"] = {});
+    const wired = wireAngularTargets(envName, envFileAbs, projectName, sourceRoot, targets);
+    backupFile(configFile, doBackup);
+    if (!writeJsonOutput(configFile, data)) {
+        log.info(`${relFromCwd(configFile)} already wires configuration "${envName}"`);
+        return;
+    }
+    recordConfigChanges(configFile, wired);
+
+    if (dryRun) {
+        log.info(`[dry-run] ${relFromCwd(configFile)} would be updated:`);
+        for (const w of wired) log.info(`  ${w}`);
+        return;
+    }
+    log.ok(`${relFromCwd(configFile)} updated with configuration "${envName}"`);
+}
+
+export function updateNgCliLegacy(
+    envName: string,
+    envFileAbs: string,
+    doBackup: boolean,
+    dryRun: boolean
+) {
+    const abs = path.resolve(cwd(), ".angular-cli.json");
+    if (!exists(abs)) throw new Error(".angular-cli.json not found");
+
+    const data = readJson(abs);
+    const apps = data.apps || data.project?.apps || [];
+    if (!apps.length) throw new Error("No apps found in .angular-cli.json");
+
+    const app0 = apps[0];
+    app0.environments = app0.environments || {};
+    const relFromSrc = posix(path.relative(path.resolve(cwd(), "src"), envFileAbs));
+    const mapped = relFromSrc.startsWith("environments/")
+        ? relFromSrc
+        : "environments/" + path.basename(envFileAbs);
+
+    backupFile(abs, doBackup);
+    app0.environments[envName] = mapped;
+    if (!writeJsonOutput(abs, data)) {
+        log.info(`.angular-cli.json already maps environment "${envName}"`);
+        return;
+    }
+    recordConfigChanges(abs, [`environments["${envName}"] = "${mapped}"`]);
+
+    if (dryRun) {
+        log.info(`[dry-run] .angular-cli.json would be updated:`);
+        log.info(`  environments["${envName}"] = "${mapped}"`);
+        return;
+    }
+    log.ok(`.angular-cli.json updated: environments["${envName}"] = "${mapped}"`);
+}
+
+/** Point a config path at the renamed file, e.g. `.../environment.uat.ts` → `.../environment.sit.ts`. */
+function renameEnvPath(p: string, envName: string, newName: string) {
+    return p.replace(new RegExp(`(^|/)environment\\.${escapeRegExp(envName)}\\.ts$`), `$1environment.${newName}.ts`);
+}
+
+/**
+ * Remove (newName = null) or rename configuration `envName` in every target of the project,
+ * including `<project>:build:<env>` references and fileReplacements pointing at the env file.
+ */
+function renameAngularJsonConfiguration(
+    envName: string,
+    newName: string | null,
+    info: ProjectInfo,
+    doBackup: boolean,
+    dryRun: boolean
+) {
+    const { project, projectName, configFile, data } = info;
+    const label = relFromCwd(configFile);
+    const targets = project.targets || project.architect || {};
+    const changes: string[] = [];
+    const refRe = new RegExp(`^(${escapeRegExp(projectName)}:[\\w-]+:)${escapeRegExp(envName)}$`);
+
+    for (const [targetName, target] of Object.entries<any>(targets)) {
+        const cfgs = target?.configurations;
+        if (cfgs && envName in cfgs) {
+            if (!newName) {
+                delete cfgs[envName];
+                if (!Object.keys(cfgs).length) delete target.configurations; // gen added it for this env
+                changes.push(`remove ${targetName}.configurations.${envName}`);
+            } else {
+                if (newName in cfgs) throw new InputError(`${targetName}.configurations.${newName} already exists in ${label}`);
+                const cfg = cfgs[envName];
+                for (const [k, v] of Object.entries<any>(cfg)) {
+                    if (typeof v === "string" && refRe.test(v)) cfg[k] = v.replace(refRe, `$1${newName}`);
+                }
+                for (const fr of Array.isArray(cfg.fileReplacements) ? cfg.fileReplacements : []) {
+                    if (typeof fr?.with === "string") fr.with = renameEnvPath(fr.with, envName, newName);
+                }
+                target.configurations = Object.fromEntries(
+                    Object.entries(cfgs).map(([k, v]) => [k === envName ? newName : k, v])
+                );
+                changes.push(`rename ${targetName}.configurations.${envName} → ${newName}`);
+            }
+        }
+        if (target?.defaultConfiguration === envName) {
+            if (newName) target.defaultConfiguration = newName;
+            else delete target.defaultConfiguration;
+            changes.push(`${newName ? "update" : "remove"} ${targetName}.defaultConfiguration`);
+        }
+    }
+
+    if (!changes.length) { log.info(`${label} has no "${envName}" configuration`); return; }
+    recordConfigChanges(configFile, changes);
+    backupFile(configFile, doBackup);
+    writeJsonOutput(configFile, data);
+    if (dryRun) {
+        log.info(`[dry-run] ${label} would be updated:`);
+        for (const c of changes) log.info(`  ${c}`);
+        return;
+    }
+    log.ok(`${label} updated: ${changes.join(", ")}`);
+}
+
+function renameNgCliLegacyEnvironment(
+    envName: string,
+    newName: string | null,
+    doBackup: boolean,
+    dryRun: boolean
+) {
+    const abs = path.resolve(cwd(), ".angular-cli.json");
+    if (!exists(abs)) throw new Error(".angular-cli.json not found");
+
+    const data = readJson(abs);
+    const apps = data.apps || data.project?.apps || [];
+    if (!apps.length) throw new Error("No apps found in .angular-cli.json");
+
+    const envs = apps[0].environments || {};
+    if (!(envName in envs)) { log.info(`.angular-cli.json has no "${envName}" environment`); return; }
+    if (newName && newName in envs) throw new InputError(`environments["${newName}"] already exists in .angular-cli.json`);
+
+    const change = newName
+        ? `environments["${newName}"] = "${renameEnvPath(envs[envName], envName, newName)}"`
+        : `delete environments["${envName}"]`;
+    recordConfigChanges(abs, [change]);
+    backupFile(abs, doBackup);
+    apps[0].environments = Object.fromEntries(
+        Object.entries<string>(envs)
+            .filter(([k]) => newName || k !== envName)
+            .map(([k, v]) => (k === envName ? [newName!, renameEnvPath(v, envName, newName!)] : [k, v]))
+    );
+    writeJsonOutput(abs, data);
+    if (dryRun) {
+        log.info(`[dry-run] .angular-cli.json would be updated:`);
+        log.info(`  ${change}`);
+        return;
+    }
+    log.ok(`.angular-cli.json updated: ${change}`);
+}
+
+/* --------------------- file generators (Angular) -------------------- */
+
+export function ensureBaselineEnvironmentTs(
+    sourceRoot: string,
+    doBackup: boolean,
+    dryRun: boolean
+) {
+    const baseline = envFilePath(sourceRoot); // environment.ts in root environments
+    if (exists(baseline)) return baseline;
+
+    // Try cloning from prod in root environments
+    const prod = envFilePath(sourceRoot, "prod");
+    if (exists(prod)) {
+        writeOutput(baseline, readText(prod));
+        if (dryRun) { log.info(`[dry-run] clone ${relFromCwd(prod)} → ${relFromCwd(baseline)}`); return baseline; }
+        log.ok(`Created baseline: ${relFromCwd(baseline)} (cloned from environment.prod.ts)`);
+        return baseline;
+    }
+
+    // Minimal stub
+    const content = `export const environment = { production: false };` + "\n";
+    writeOutput(baseline, content);
+    if (dryRun) { log.info(`[dry-run] create ${relFromCwd(baseline)}`); return baseline; }
+    log.ok(`Created baseline: ${relFromCwd(baseline)}`);
+    return baseline;
+}
+
+function toEnvironmentTs(
+    envName: string,
+    kv: Record<string, string>,
+    modelImport?: string,
+    keys?: KeyOptions
+): string {
+    // prod/production => production: true
+    const isProd = /^(prod|production)$/i.test(envName);
+
+    // pretty-print values and coerce booleans/numbers/JSON
+    const values = { production: isProd, ...buildValues(kv, keys) };
+    const entries = Object.entries(values).map(
+        ([k, v]) => `  ${tsKey(k)}: ${toTsLiteral(v, "\"", "  ")},`
+    );
+
+    const header = modelImport
+        ? `import { Environment } from "${modelImport}";\n\nexport const environment: Environment = {`
+        : `export const environment = {`;
+    return `${header}
+${entries.join("\n")}
+};
+`;
+}
+
+
+function writeEnvironmentTs(
+    envName: string,
+    kv: Record<string, string>,
+    sourceRoot: string,
+    folder: string | undefined,
+    dryRun: boolean,
+    typed = false,
+    keys?: KeyOptions
+) {
+    const dir = envDir(sourceRoot, folder);
+    const target = path.resolve(dir, `environment.${envName}.ts`);
+    const content = toEnvironmentTs(envName, kv, typed ? modelImportFor(target, sourceRoot) : undefined, keys);
+    const existed = exists(target);
+    writeOutput(target, content);
+    if (dryRun) log.info(`[dry-run] ${existed ? "overwrite" : "create"} ${relFromCwd(target)}`);
+    else log.ok(`${existed ? "Overwrote" : "Created"} ${relFromCwd(target)}`);
+    return target;
+}
+
+function mergeEnvironmentTs(
+    target: string,
+    kv: Record<string, string>,
+    doBackup: boolean,
+    dryRun: boolean,
+    keys?: KeyOptions
+) {
+    const values = buildValues(kv, keys);
+    const before = readText(target);
+    const after = mergeEnvironmentSource(before, values);
+    const names = Object.keys(kv).join(", ");
+    if (after === before) { log.info(`${relFromCwd(target)} already up to date (${names})`); return target; }
+    backupFile(target, doBackup);
+    writeOutput(target, after);
+    if (dryRun) { log.info(`[dry-run] merge ${names} into ${relFromCwd(target)}`); return target; }
+    log.ok(`Merged ${names} into ${relFromCwd(target)}`);
+    return target;
+}
+
+/** The file `gen` clones a new environment from: `--copy-from` if it exists, else the usual candidates. */
+export function cloneSourceFor(sourceRoot: string, destEnv: string, folder: string | undefined, explicitFrom?: string) {
+    const dest = envFilePath(sourceRoot, destEnv, folder);
+    const preferred = explicitFrom ? envFilePath(sourceRoot, explicitFrom, folder) : null;
+    return (preferred && preferred !== dest && exists(preferred) && preferred) ||
+        findCloneSource(sourceRoot, folder, dest);
+}
+
+function cloneEnvironmentFile(
+    sourceRoot: string,
+    destEnv: string,
+    folder: string | undefined,
+    explicitFrom?: string,
+    dryRun?: boolean
+) {
+    const dest = envFilePath(sourceRoot, destEnv, folder);
+    const src = cloneSourceFor(sourceRoot, destEnv, folder, explicitFrom);
+    if (!src) return null;
+
+    writeOutput(dest, readText(src));
+    if (dryRun) { log.info(`[dry-run] clone ${relFromCwd(src)} → ${relFromCwd(dest)}`); return dest; }
+    log.ok(`Cloned ${relFromCwd(src)} → ${relFromCwd(dest)}`);
+    return dest;
+}
+
+/**
+ * What `gen` does with the target environment file:
+ * keep it, merge values into it, write it from values, or clone it from another file.
+ */
+type EnvFileAction = "use" | "merge" | "write" | "clone";
+
+export function decideEnvFileAction(
+    targetPath: string,
+    hasValues: boolean,
+    opts: { merge?: boolean; force?: boolean }
+): EnvFileAction {
+    if (opts.merge && opts.force) throw new InputError("--merge and --force cannot be used together");
+    if (!exists(targetPath)) return hasValues ? "write" : "clone";
+    if (opts.force) return hasValues ? "write" : "clone";
+    if (opts.merge) return hasValues ? "merge" : "use";
+    if (hasValues) {
+        throw new InputError(
+            `${relFromCwd(targetPath)} already exists. Pass --merge to update only the given keys or --force to overwrite it`
+        );
+    }
+    return "use";
+}
+
+export function applyEnvFileAction(
+    action: EnvFileAction,
+    envName: string,
+    kv: Record<string, string>,
+    sourceRoot: string,
+    folder: string | undefined,
+    opts: KeyOptions & { copyFrom?: string; backup?: boolean; dryRun?: boolean; types?: boolean }
+) {
+    const targetPath = envFilePath(sourceRoot, envName, folder);
+    const dryRun = !!opts.dryRun;
+    const typed = !!opts.types;
+    switch (action) {
+        case "use":
+            return targetPath;
+        case "merge":
+            return mergeEnvironmentTs(targetPath, kv, !!opts.backup, dryRun, opts);
+        case "write":
+            backupFile(targetPath, !!opts.backup);
+            return writeEnvironmentTs(envName, kv, sourceRoot, folder, dryRun, typed, opts);
+        case "clone": {
+            backupFile(targetPath, !!opts.backup);
+            const cloned = cloneEnvironmentFile(sourceRoot, envName, folder, opts.copyFrom, dryRun);
+            if (cloned && typed) annotateEnvironmentFile(cloned, sourceRoot, dryRun);
+            return cloned || writeEnvironmentTs(envName, {}, sourceRoot, folder, dryRun, typed);
+        }
+    }
+}
+
+/* ----------------------- environment model (types) ------------------ */
+
+const MODEL_FILE = "environment.model.ts";
+
+function modelPath(sourceRoot: string) {
+    return path.resolve(envDir(sourceRoot), MODEL_FILE);
+}
+
+/** Import specifier for the model, relative to an environment file. */
+function modelImportFor(fileAbs: string, sourceRoot: string) {
+    const rel = posix(path.relative(path.dirname(fileAbs), modelPath(sourceRoot))).replace(/\.ts$/, "");
+    return rel.startsWith(".") ? rel : `./${rel}`;
+}
+
+/** TypeScript type covering every value a key takes across environments. */
+function inferTsType(values: any[], indent: string): string {
+    const known = values.filter(v => !(v instanceof RawExpression));
+    if (!known.length) return "any";
+    const types = new Set<string>();
+    for (const v of known) {
+        if (v === null) types.add("null");
+        else if (typeof v !== "object") types.add(typeof v);
+    }
+    const arrays = known.filter(Array.isArray);
+    if (arrays.length) {
+        const items = arrays.flat();
+        const t = items.length ? inferTsType(items, indent) : "unknown";
+        types.add(/^\w+$/.test(t) ? `${t}[]` : `Array<${t}>`);
+    }
+    const objects = known.filter(v => v && typeof v === "object" && !Array.isArray(v));
+    if (objects.length) types.add(inferObjectType(objects, indent));
+    return Array.from(types).join(" | ");
+}
+
+function inferObjectType(objects: Record<string, any>[], indent: string): string {
+    const keys = Array.from(new Set(objects.flatMap(o => Object.keys(o))));
+    const lines = keys.map(k =>
+        `${indent}  ${tsKey(k)}: ${inferTsType(objects.filter(o => k in o).map(o => o[k]), indent + "  ")};`
+    );
+    return `{\n${lines.join("\n")}\n${indent}}`;
+}
+
+function toEnvironmentModelTs(envs: Record<string, any>[]): string {
+    return `// generated by envx from environment*.ts; run \`envx gen types\` after editing environments by hand
+export interface Environment ${inferObjectType(envs, "")}
+`;
+}
+
+/** Regenerate environment.model.ts from every environment file; writes only on change. */
+export function writeEnvironmentModel(sourceRoot: string, dryRun: boolean) {
+    const target = modelPath(sourceRoot);
+    const base = envDir(sourceRoot);
+    // baseline first so the interface follows its key order
+    const files = exists(base) ? findEnvironmentFiles(base).sort() : [];
+    const baseline = envFilePath(sourceRoot);
+    files.sort((a, b) => Number(b === baseline) - Number(a === baseline));
+    const envs: Record<string, any>[] = [];
+    for (const f of files) {
+        try { envs.push(readEnvironmentValues(f)); } catch (e: any) {
+            log.warn(`Skipping ${relFromCwd(f)} for types: ${e.message}`);
+        }
+    }
+    const content = toEnvironmentModelTs(envs);
+    if (exists(target) && readText(target) === content) return target;
+    writeOutput(target, content);
+    if (dryRun) { log.info(`[dry-run] update ${relFromCwd(target)}`); return target; }
+    log.ok(`Updated ${relFromCwd(target)} (${envs.length} environment(s))`);
+    return target;
+}
+
+const MODEL_IMPORT_RE = /import\s*\{[^}]*\bEnvironment\b[^}]*\}\s*from\s*(['"])([^'"]*environment\.model)\1/;
+
+/** Type `export const environment` as `Environment` and point its import at the model. */
+function annotateEnvironmentSource(source: string, importPath: string): string {
+    const m = ENV_DECL_RE.exec(source);
+    if (!m) throw new Error("No `export const environment = {...}` declaration found");
+    const annotation = /:\s*([^=]+?)\s*=\s*$/.exec(m[0]);
+    if (annotation && annotation[1] !== "Environment") return source; // typed some other way on purpose
+
+    let out = source;
+    if (!annotation) {
+        const at = m.index + m[0].indexOf("environment") + "environment".length;
+        out = out.slice(0, at) + ": Environment" + out.slice(at);
+    }
+
+    const imp = MODEL_IMPORT_RE.exec(out);
+    if (imp) {
+        if (imp[2] === importPath) return out;
+        const at = imp.index + imp[0].length - imp[2].length - 1;
+        return out.slice(0, at) + importPath + out.slice(at + imp[2].length);
+    }
+    const eol = out.includes("\r\n") ? "\r\n" : "\n";
+    const imports = Array.from(out.matchAll(/^import\b[\s\S]*?from\s*(['"])[^'"]+\1;?[ \t]*\r?\n/gm));
+    const last = imports[imports.length - 1];
+    const q = last ? last[1] : preferredQuote(out, parseEnvironmentSource(out));
+    const line = `import { Environment } from ${q}${importPath}${q};${eol}`;
+    if (!last) return line + eol + out;
+    const at = last.index! + last[0].length;
+    return out.slice(0, at) + line + out.slice(at);
+}
+
+export function annotateEnvironmentFile(fileAbs: string, sourceRoot: string, dryRun: boolean) {
+    const before = readText(fileAbs);
+    const after = annotateEnvironmentSource(before, modelImportFor(fileAbs, sourceRoot));
+    if (after === before) return false;
+    writeOutput(fileAbs, after);
+    if (dryRun) { log.info(`[dry-run] type ${relFromCwd(fileAbs)} as Environment`); return true; }
+    log.ok(`Typed ${relFromCwd(fileAbs)} as Environment`);
+    return true;
+}
+
+/* --------------------------- AngularJS path ------------------------- */
+
+export const ANGULARJS_FORMATS = ["global", "constant", "esm"] as const;
+export type AngularJsFormat = typeof ANGULARJS_FORMATS[number];
+
+export type AngularJsOptions = KeyOptions & {
+    folder?: string;
+    /** global: `window.__ENV` (default), constant: `angular.module(...).constant(...)`, esm: `export default`. */
+    angularjsFormat?: AngularJsFormat;
+    /** Module that gets the constant. Default: the `ng-app` of index.html. */
+    module?: string;
+    /** Name of the constant or ES export. Default "ENV". */
+    constant?: string;
+    /** Add or replace the `<script>` tag between the envx markers in index.html. */
+    inject?: boolean;
+    backup?: boolean;
+};
+
+const SCRIPT_MARKERS = ["<!-- envx:env -->", "<!-- /envx:env -->"] as const;
+
+const angularJsAssets = (sourceRoot: string) => path.resolve(cwd(), sourceRoot, "assets");
+const indexHtmlPath = (sourceRoot: string) => path.resolve(cwd(), sourceRoot, "index.html");
+
+export function angularJsEnvPath(sourceRoot: string, envName: string, folder?: string) {
+    return path.resolve(angularJsAssets(sourceRoot), ...(folder ? [folder] : []), `env.${envName}.js`);
+}
+
+/** Every `env.<name>.js` under `<sourceRoot>/assets`. */
+export function findAngularJsEnvFiles(sourceRoot: string): string[] {
+    return walkFiles(angularJsAssets(sourceRoot)).filter(f => /^env\.[^.]+\.js$/.test(path.basename(f)));
+}
+
+/** `assets/env.uat.js` → "uat", `assets/f1/env.sit.js` → "f1/sit". */
+export function angularJsEnvName(sourceRoot: string, absPath: string) {
+    const rel = posix(path.relative(angularJsAssets(sourceRoot), absPath));
+    const name = /^env\.([^.]+)\.js$/.exec(path.posix.basename(rel))![1];
+    const dir = path.posix.dirname(rel);
+    return dir === "." ? name : `${dir}/${name}`;
+}
+
+function ngAppModule(sourceRoot: string): string | null {
+    const index = indexHtmlPath(sourceRoot);
+    if (!exists(index)) return null;
+    return /\b(?:data-)?ng-app\s*=\s*["']([\w.$-]+)["']/.exec(readText(index))?.[1] ?? null;
+}
+
+/**
+ * Point the envx block of index.html at `src`, or empty it (src = null). Without markers a block is
+ * added before </head>, or before </body> for constant modules, which need angular and the app module first.
+ */
+function setEnvScript(html: string, src: string | null, atBodyEnd: boolean): string {
+    const eol = html.includes("\r\n") ? "\r\n" : "\n";
+    const [open, close] = SCRIPT_MARKERS;
+    const start = html.indexOf(open);
+    const end = start < 0 ? -1 : html.indexOf(close, start);
+    if (end > start) {
+        const indent = lineIndent(html, start);
+        const inner = src ? `${eol}${indent}<script src="${src}"></script>${eol}${indent}` : `${eol}${indent}`;
+        return html.slice(0, start + open.length) + inner + html.slice(end);
+    }
+    if (!src) return html;
+
+    const at = html.toLowerCase().lastIndexOf(atBodyEnd ? "</body>" : "</head>");
+    if (at < 0) throw new InputError(`No ${atBodyEnd ? "</body>" : "</head>"} in index.html; add ${open}${close} where the script should go`);
+    const lineStart = html.lastIndexOf("\n", at - 1) + 1;
+    const ownLine = !html.slice(lineStart, at).trim();
+    const outer = lineIndent(html, at);
+    const block = [open, `<script src="${src}"></script>`, close].map(l => outer + "  " + l).join(eol) + eol;
+    return ownLine
+        ? html.slice(0, lineStart) + block + html.slice(lineStart)
+        : html.slice(0, at) + eol + block + outer + html.slice(at); // closing tag shares a line: give the block its own
+}
+
+/** Stage index.html with its envx block pointing at `envFile` (null = empty it); false when nothing changed. */
+function injectEnvScript(sourceRoot: string, envFile: string | null, format: AngularJsFormat, doBackup: boolean, dryRun: boolean) {
+    const index = indexHtmlPath(sourceRoot);
+    if (!exists(index)) throw new InputError(`${relFromCwd(index)} not found; --inject updates it`);
+    const html = readText(index);
+    const src = envFile && posix(path.relative(path.dirname(index), envFile));
+    const next = setEnvScript(html, src, format === "constant");
+    if (next === html) return false;
+    backupFile(index, doBackup);
+    writeOutput(index, next);
+    const what = src ? `<script src="${src}">` : "no env script";
+    if (dryRun) log.info(`[dry-run] ${relFromCwd(index)} would load ${what}`);
+    else log.ok(`${relFromCwd(index)} now loads ${what}`);
+    return true;
+}
+
+/** After `rename`/`remove`, keep an injected script tag pointing at the moved file (or drop it). */
+function retargetEnvScript(sourceRoot: string, from: string, to: string | null, doBackup: boolean, dryRun: boolean) {
+    const index = indexHtmlPath(sourceRoot);
+    if (!exists(index)) return;
+    const html = readText(index);
+    const start = html.indexOf(SCRIPT_MARKERS[0]);
+    const block = start < 0 ? "" : html.slice(start, html.indexOf(SCRIPT_MARKERS[1], start));
+    if (!block.includes(`src="${posix(path.relative(path.dirname(index), from))}"`)) return;
+    injectEnvScript(sourceRoot, to, "global", doBackup, dryRun);
+}
+
+export function generateAngularJsEnv(
+    envName: string,
+    kv: Record<string, string>,
+    sourceRoot: string,
+    opts: AngularJsOptions,
+    dryRun: boolean
+) {
+    const format = opts.angularjsFormat || "global";
+    if (!ANGULARJS_FORMATS.includes(format)) {
+        throw new InputError(`Unknown AngularJS format "${format}". Use one of: ${ANGULARJS_FORMATS.join(", ")}`);
+    }
+    const name = opts.constant || "ENV";
+    if (!/^[A-Za-z_$][\w$]*$/.test(name)) throw new InputError(`"${name}" is not a valid constant name`);
+    if (opts.inject && format === "esm") {
+        throw new InputError("--inject adds a classic <script> tag; import the ES module from your code instead");
+    }
+
+    const target = angularJsEnvPath(sourceRoot, envName, opts.folder);
+    const body = JSON.stringify(buildValues(kv, opts), null, 2);
+    let content: string;
+    if (format === "constant") {
+        const module = opts.module || ngAppModule(sourceRoot);
+        if (!module) throw new InputError(`No ng-app found in ${relFromCwd(indexHtmlPath(sourceRoot))}; pass --module <name>`);
+        content = `angular.module(${JSON.stringify(module)}).constant(${JSON.stringify(name)}, ${body});`;
+    } else if (format === "esm") {
+        content = `export const ${name} = ${body};\nexport default ${name};`;
+    } else {
+        content = `(function(w){ w.__ENV = ${body}; })(window);`;
+    }
+    backupFile(target, !!opts.backup);
+    writeOutput(target, `// generated by envx\n${content}\n`);
+    if (dryRun) log.info(`[dry-run] create ${relFromCwd(target)}`);
+    else log.ok(`AngularJS env file created: ${relFromCwd(target)}`);
+
+    if (opts.inject) injectEnvScript(sourceRoot, target, format, !!opts.backup, dryRun);
+    return target;
+}
+
+/* ----------------------- runtime config (Angular) ------------------- */
+
+export const RUNTIME_CONFIG_URL = "assets/config/config.json";
+
+export function runtimeConfigPath(sourceRoot: string, envName: string, folder?: string) {
+    return path.resolve(cwd(), sourceRoot, "assets", "config", ...(folder ? [folder] : []), `${envName}.json`);
+}
+
+export function runtimeLoaderPath(sourceRoot: string) {
+    return path.resolve(cwd(), sourceRoot, "app", "runtime-config.ts");
+}
+
+function angularCoreMajor(): number | null {
+    const pkg = readPackageJson();
+    const ngCore = pkg?.dependencies?.["@angular/core"] || pkg?.devDependencies?.["@angular/core"];
+    const v = ngCore ? semver.coerce(ngCore) : null;
+    return v ? v.major : null;
+}
+
+export function toRuntimeConfig(envName: string, kv: Record<string, string>, keys?: KeyOptions): Record<string, any> {
+    return { production: /^(prod|production)$/i.test(envName), ...buildValues(kv, keys) };
+}
+
+function deepMerge(target: Record<string, any>, source: Record<string, any>): Record<string, any> {
+    const out = { ...target };
+    for (const [k, v] of Object.entries(source)) {
+        out[k] = isPlainObject(v) && isPlainObject(out[k]) ? deepMerge(out[k], v) : v;
+    }
+    return out;
+}
+
+function tsTypeOf(v: any): string {
+    if (v === null) return "unknown";
+    if (Array.isArray(v)) return "unknown[]";
+    if (typeof v === "object") return "Record<string, unknown>";
+    return typeof v;
+}
+
+function toRuntimeLoaderTs(config: Record<string, any>, useProvideAppInitializer: boolean): string {
+    const fields = Object.entries(config).map(([k, v]) => `  ${tsKey(k)}: ${tsTypeOf(v)};`);
+    const imports = useProvideAppInitializer
+        ? "import { InjectionToken, provideAppInitializer } from '@angular/core';"
+        : "import { APP_INITIALIZER, InjectionToken, Provider } from '@angular/core';";
+    const provider = useProvideAppInitializer
+        ? `export function provideRuntimeConfig(url: string = RUNTIME_CONFIG_URL) {
+  return provideAppInitializer(() => loadRuntimeConfig(url));
+}`
+        : `export function provideRuntimeConfig(url: string = RUNTIME_CONFIG_URL): Provider {
+  return { provide: APP_INITIALIZER, multi: true, useFactory: () => () => loadRuntimeConfig(url) };
+}`;
+
+    return `// generated by envx: runtime configuration loaded at startup (build once, deploy many)
+${imports}
+
+export interface RuntimeConfig {
+${fields.join("\n")}
+}
+
+/** Deploy the right assets/config/<env>.json to this path, e.g. in the container entrypoint. */
+export const RUNTIME_CONFIG_URL = '${RUNTIME_CONFIG_URL}';
+
+const config = {} as RuntimeConfig;
+
+export const RUNTIME_CONFIG = new InjectionToken<RuntimeConfig>('RUNTIME_CONFIG', {
+  providedIn: 'root',
+  factory: () => config,
+});
+
+export async function loadRuntimeConfig(url: string = RUNTIME_CONFIG_URL): Promise<RuntimeConfig> {
+  const res = await fetch(url, { cache: 'no-cache' });
+  if (!res.ok) throw new Error(\`Could not load runtime config from \${url} (\${res.status})\`);
+  return Object.assign(config, await res.json());
+}
+
+${provider}
+`;
+}
+
+export function writeRuntimeConfig(
+    action: EnvFileAction,
+    envName: string,
+    kv: Record<string, string>,
+    target: string,
+    opts: KeyOptions & { backup?: boolean; dryRun?: boolean }
+) {
+    if (action === "use") return target;
+    const existed = exists(target);
+    let config = toRuntimeConfig(envName, kv, opts);
+    if (action === "merge") {
+        config = deepMerge(readJson(target), buildValues(kv, opts)); // only the given keys
+    }
+    const verb = action === "merge" ? "merge into" : existed ? "overwrite" : "create";
+    backupFile(target, !!opts.backup);
+    writeOutput(target, JSON.stringify(config, null, 2) + "\n");
+    if (opts.dryRun) log.info(`[dry-run] ${verb} ${relFromCwd(target)}`);
+    else log.ok(`${action === "merge" ? "Merged into" : existed ? "Overwrote" : "Created"} ${relFromCwd(target)}`);
+    return target;
+}
+
+export function ensureRuntimeLoader(sourceRoot: string, config: Record<string, any>, dryRun: boolean) {
+    const target = runtimeLoaderPath(sourceRoot);
+    if (exists(target)) return target;
+    const major = angularCoreMajor();
+    const content = toRuntimeLoaderTs(config, major !== null && major >= 19);
+    writeOutput(target, content);
+    if (dryRun) { log.info(`[dry-run] create ${relFromCwd(target)}`); return target; }
+    log.ok(`Created runtime config loader: ${relFromCwd(target)}`);
+    return target;
+}
+
+/** True when the build's `assets` option does not ship `<sourceRoot>/assets`. */
+export function assetsNotShipped(targets: TargetsObj, sourceRoot: string) {
+    const assets = targets.build?.options?.assets;
+    if (!Array.isArray(assets)) return false;
+    const dir = `${posix(sourceRoot)}/assets`;
+    return !assets.some((a: any) => (typeof a === "string" ? a : a?.input || "").replace(/\/$/, "").startsWith(dir));
+}
+
+/* ------------------------- manifest (sync) -------------------------- */
+
+type ManifestEnv = {
+    envFile?: string | string[];
+    values?: Record<string, any>;
+    folder?: string;
+    copyFrom?: string;
+};
+type ManifestProject = KeyOptions & {
+    sourceRoot?: string;
+    types?: boolean;
+    environments: Record<string, ManifestEnv>;
+};
+type Manifest = { projects: Record<string, ManifestProject> };
+
+export const MANIFEST_FILE = "envx.config.json";
+
+export function loadManifest(explicitPath?: string): Manifest {
+    const abs = path.resolve(cwd(), explicitPath || MANIFEST_FILE);
+    if (!exists(abs)) throw new InputError(`${relFromCwd(abs)} not found`);
+    let data: any;
+    try { data = readJson(abs); } catch (e: any) {
+        throw new InputError(`Invalid JSON in ${relFromCwd(abs)}: ${e.message}`);
+    }
+    if (!data || typeof data.projects !== "object" || Array.isArray(data.projects)) {
+        throw new InputError(`${relFromCwd(abs)} must contain a "projects" object`);
+    }
+    for (const [name, p] of Object.entries<any>(data.projects)) {
+        if (!p || typeof p.environments !== "object") {
+            throw new InputError(`${relFromCwd(abs)}: project "${name}" must contain an "environments" object`);
+        }
+    }
+    return data as Manifest;
+}
+
+/** True when `gen` would still change the Angular wiring for this environment. */
+/**
+ * Targets whose `envName` configuration lacks something `gen` would wire: the fileReplacements
+ * entry or the build ref. Wiring keeps every other option, so those never count as drift.
+ */
+function unwiredTargets(envName: string, envFileAbs: string, info: ProjectInfo, sourceRoot: string): string[] {
+    const current = info.project.targets || info.project.architect || {};
+    const wired = JSON.parse(JSON.stringify(current));
+    wireAngularTargets(envName, envFileAbs, info.projectName, sourceRoot, wired);
+    const entry = (targets: any, name: string) => JSON.stringify(targets[name]?.configurations?.[envName]);
+    return Object.keys(wired).filter(name => entry(wired, name) !== entry(current, name));
+}
+
+function ngCliLegacyNeedsUpdate(envName: string, envFileAbs: string) {
+    const abs = path.resolve(cwd(), ".angular-cli.json");
+    if (!exists(abs)) return true;
+    const data = readJson(abs);
+    const app0 = (data.apps || data.project?.apps || [])[0];
+    const relFromSrc = posix(path.relative(path.resolve(cwd(), "src"), envFileAbs));
+    const mapped = relFromSrc.startsWith("environments/") ? relFromSrc : "environments/" + path.basename(envFileAbs);
+    return app0?.environments?.[envName] !== mapped;
+}
+
+/** Declared keys whose value in the existing file differs from the manifest. */
+function staleKeys(target: string, kv: Record<string, string>, keys: KeyOptions): string[] {
+    const current = flattenValues(readEnvironmentValues(target));
+    const desired = flattenValues(buildValues(kv, keys));
+    return Object.keys(desired).filter(k => !(k in current) || !sameValue(current[k], desired[k]));
+}
+
+type SyncResult = { drift: string[]; extras: string[] };
+
+/**
+ * Reconcile one manifest project with the workspace. With `check` nothing is written and
+ * the returned drift says what a real sync would do.
+ */
+export function syncProject(
+    kind: ProjectKind,
+    projectKey: string,
+    spec: ManifestProject,
+    opts: { check?: boolean; dryRun?: boolean; backup?: boolean }
+): SyncResult {
+    const result: SyncResult = { drift: [], extras: [] };
+    const write = !opts.check;
+    const dryRun = !!opts.dryRun;
+    const keys: KeyOptions = { keyDelimiter: spec.keyDelimiter, camelCase: spec.camelCase };
+    const types = spec.types !== false;
+    const schemaTypes = schemaValueTypes();
+
+    let projectName = projectKey;
+    let sourceRoot = spec.sourceRoot || "src";
+    if (kind === "angular-modern") {
+        const info = resolveProjectInfo(projectKey);
+        projectName = info.projectName;
+        sourceRoot = spec.sourceRoot || info.sourceRoot;
+    }
+    log.info(`Project: ${projectName} (sourceRoot: ${sourceRoot})`);
+    if (write) ensureBaselineEnvironmentTs(sourceRoot, !!opts.backup, dryRun);
+
+    for (const [envName, env] of Object.entries(spec.environments)) {
+        const folder = sanitizeFolder(env.folder);
+        const envFile = env.envFile === undefined ? undefined : ([] as string[]).concat(env.envFile);
+        const { values: inline, valueTypes } = splitTypeHints(env.values || {});
+        const envKeys: KeyOptions = { ...keys, valueTypes: { ...schemaTypes, ...valueTypes } };
+        const kv = resolveEnvValues(envName, inline, MANIFEST_FILE, { ...envKeys, envFile }, true);
+        const hasValues = Object.keys(kv).length > 0;
+
+        const target = envFilePath(sourceRoot, envName, folder);
+        let action: EnvFileAction = "use";
+        if (!exists(target)) {
+            action = hasValues ? "write" : "clone";
+            result.drift.push(`${relFromCwd(target)} is missing`);
+        } else if (hasValues) {
+            const stale = staleKeys(target, kv, envKeys);
+            if (stale.length) {
+                action = "merge";
+                result.drift.push(`${relFromCwd(target)}: ${stale.join(", ")} differ from ${MANIFEST_FILE}`);
+            }
+        }
+        const info = kind === "angular-modern" ? resolveProjectInfo(projectName) : null;
+        const unwired = info ? unwiredTargets(envName, target, info, sourceRoot) : [];
+        const configStale = info ? unwired.length > 0 : ngCliLegacyNeedsUpdate(envName, target);
+        if (configStale) {
+            const where = info ? `${relFromCwd(info.configFile)} (${unwired.join(", ")})` : ".angular-cli.json";
+            result.drift.push(`"${envName}" is not wired in ${where}`);
+        }
+
+        if (!write) continue;
+        const finalEnvFile = applyEnvFileAction(action, envName, kv, sourceRoot, folder, {
+            ...envKeys, copyFrom: env.copyFrom, backup: opts.backup, dryRun, types,
+        });
+        if (!configStale) continue;
+        if (info) {
+            updateAngularJson(envName, finalEnvFile, info, sourceRoot, !!opts.backup, dryRun);
+        } else {
+            updateNgCliLegacy(envName, finalEnvFile, !!opts.backup, dryRun);
+        }
+    }
+    if (write && types) writeEnvironmentModel(sourceRoot, dryRun);
+
+    // Report what exists but is not declared; never removed automatically.
+    const declared = new Set(Object.entries(spec.environments).map(([n, e]) => envFilePath(sourceRoot, n, sanitizeFolder(e.folder))));
+    const base = envDir(sourceRoot);
+    if (exists(base)) {
+        for (const f of findEnvironmentFiles(base).sort()) {
+            if (!declared.has(f) && f !== envFilePath(sourceRoot)) result.extras.push(`${relFromCwd(f)} is not in ${MANIFEST_FILE}`);
+        }
+    }
+    if (kind === "angular-modern") {
+        const cfgs = resolveProjectInfo(projectName).targets.build?.configurations || {};
+        for (const [name, cfg] of Object.entries<any>(cfgs)) {
+            if (!(name in spec.environments) && Array.isArray(cfg?.fileReplacements) && cfg.fileReplacements.length) {
+                result.extras.push(`build configuration "${name}" is not in ${MANIFEST_FILE}`);
+            }
+        }
+    }
+    return result;
+}
+
+/* ------------------------------ doctor ------------------------------ */
+
+export type DoctorCheck =
+    | "missing-baseline"
+    | "missing-file"
+    | "unreferenced-file"
+    | "unknown-build-config"
+    | "partially-wired"
+    | "missing-keys"
+    | "stale-backup";
+
+export type DoctorIssue = {
+    check: DoctorCheck;
+    message: string;
+    /** What `--fix` does about it; issues without one need a person. */
+    fix?: string;
+    /** What to do by hand when there is no automatic fix. */
+    hint?: string;
+    fixed?: boolean;
+};
+
+/** `.bak.<stamp>` copies the pre-.envx/backups versions of envx left next to the files they backed up. */
+function findStaleBackups(dirs: string[], trees: string[]): string[] {
+    const isBak = (f: string) => /\.bak\.[\w-]+$/.test(path.basename(f));
+    const out = new Set<string>();
+    for (const d of dirs) {
+        if (!fs.existsSync(d)) continue;
+        for (const ent of fs.readdirSync(d, { withFileTypes: true })) {
+            if (ent.isFile() && isBak(ent.name)) out.add(path.join(d, ent.name));
+        }
+    }
+    for (const t of trees) for (const f of walkFiles(t)) if (isBak(f)) out.add(f);
+    return [...out].sort();
+}
+
+/**
+ * Cross-check environment files against the Angular config. With `fix`, repairs what can be
+ * derived from the workspace itself (wiring an existing file, creating the baseline) through
+ * the same writers `gen` uses; everything else is reported with a hint.
+ */
+export function diagnoseWorkspace(
+    kind: ProjectKind,
+    opts: { project?: string; sourceRoot?: string; fix?: boolean; dryRun?: boolean; backup?: boolean }
+): DoctorIssue[] {
+    const dryRun = !!opts.dryRun;
+    const doBackup = !!opts.backup;
+    const issues: DoctorIssue[] = [];
+    const repairs = new Map<string, () => void>(); // one repair per environment, however many issues point at it
+    const repairOf = new Map<DoctorIssue, string>();
+    const add: AddIssue = (issue, repairKey, repair) => {
+        issues.push(issue);
+        if (repairKey && repair) {
+            repairOf.set(issue, repairKey);
+            if (!repairs.has(repairKey)) repairs.set(repairKey, repair);
+        }
+    };
+
+    const info = kind === "angular-modern" ? resolveProjectInfo(opts.project) : null;
+    const sourceRoot = opts.sourceRoot || (info ? info.sourceRoot : "src");
+    const baseline = envFilePath(sourceRoot);
+    const base = envDir(sourceRoot);
+
+    if (kind !== "angularjs") {
+        const envFiles = (exists(base) ? findEnvironmentFiles(base) : []).filter(f => f !== baseline).sort();
+        if (!exists(baseline)) {
+            add({ check: "missing-baseline", message: `${relFromCwd(baseline)} is missing`, fix: "create it" },
+                "baseline", () => ensureBaselineEnvironmentTs(sourceRoot, doBackup, dryRun));
+        }
+        if (info) diagnoseAngularJson(info, sourceRoot, envFiles, add, doBackup, dryRun);
+        else diagnoseNgCliLegacy(envFiles, add, doBackup, dryRun);
+
+        if (exists(baseline)) {
+            const wanted = Object.keys(flattenValues(readEnvironmentValues(baseline)));
+            for (const f of envFiles) {
+                let have: Record<string, any>;
+                try { have = flattenValues(readEnvironmentValues(f)); } catch (e: any) {
+                    log.warn(`Skipping ${relFromCwd(f)}: ${e.message}`);
+                    continue;
+                }
+                const missing = wanted.filter(k => !(k in have));
+                if (missing.length) {
+                    const nested = missing[0].includes(".") ? " --key-delimiter ." : ""; // else the key is written flat
+                    add({
+                        check: "missing-keys",
+                        message: `${relFromCwd(f)} lacks ${missing.join(", ")} from environment.ts`,
+                        hint: `add them, e.g. envx gen ${envNameFromFile(base, f).split("/").pop()} --merge${nested} --set ${missing[0]}=...`,
+                    });
+                }
+            }
+        }
+    }
+
+    const configDir = info ? path.dirname(info.configFile) : cwd();
+    for (const f of findStaleBackups([cwd(), configDir], [path.resolve(cwd(), sourceRoot)])) {
+        add({
+            check: "stale-backup",
+            message: `${relFromCwd(f)} is an old backup`,
+            hint: `delete it; backups now live in ${BACKUP_DIR}`,
+        });
+    }
+
+    if (opts.fix) {
+        for (const [key, repair] of repairs) {
+            repair();
+            for (const i of issues) if (repairOf.get(i) === key) i.fixed = true;
+        }
+    }
+    return issues;
+}
+
+type AddIssue = (issue: DoctorIssue, repairKey?: string, repair?: () => void) => void;
+
+function diagnoseAngularJson(info: ProjectInfo, sourceRoot: string, envFiles: string[], add: AddIssue, doBackup: boolean, dryRun: boolean) {
+    const label = relFromCwd(info.configFile);
+    const targets = info.targets;
+    const buildCfgs = targets.build?.configurations || {};
+    const wire = (envName: string, file: string) => () => updateAngularJson(envName, file, info, sourceRoot, doBackup, dryRun);
+
+    const referenced = new Set<string>();
+    for (const [targetName, target] of Object.entries<any>(targets)) {
+        for (const [cfgName, cfg] of Object.entries<any>(target?.configurations || {})) {
+            for (const fr of Array.isArray(cfg?.fileReplacements) ? cfg.fileReplacements : []) {
+                if (typeof fr?.with !== "string") continue;
+                const abs = path.resolve(cwd(), fr.with);
+                referenced.add(abs);
+                if (!exists(abs)) {
+                    add({
+                        check: "missing-file",
+                        message: `${label}: ${targetName}.configurations.${cfgName} replaces with ${fr.with}, which does not exist`,
+                        hint: `envx gen ${cfgName} to create it, or envx remove ${cfgName}`,
+                    });
+                }
+            }
+            for (const key of ["buildTarget", "browserTarget"]) {
+                const m = typeof cfg?.[key] === "string" ? /^([^:]+):build:(.+)$/.exec(cfg[key]) : null;
+                if (!m || m[1] !== info.projectName || m[2] in buildCfgs) continue;
+                const file = envFilePath(sourceRoot, m[2]);
+                const message = `${label}: ${targetName}.configurations.${cfgName}.${key} points at ${cfg[key]}, which does not exist`;
+                if (exists(file)) add({ check: "unknown-build-config", message, fix: `wire "${m[2]}" to ${relFromCwd(file)}` }, m[2], wire(m[2], file));
+                else add({ check: "unknown-build-config", message, hint: `envx remove ${m[2]}` });
+            }
+        }
+    }
+
+    for (const f of envFiles) {
+        const envName = path.basename(f).replace(/^environment\.|\.ts$/g, "");
+        const cfg = buildCfgs[envName];
+        if (!referenced.has(f)) {
+            if (envName === "prod" && buildCfgs.production && !cfg) {
+                add({
+                    check: "unreferenced-file",
+                    message: `${relFromCwd(f)} is not used by any configuration`,
+                    hint: "add it to the fileReplacements of the production configuration, or remove it",
+                });
+            } else if (cfg) {
+                add({
+                    check: "unreferenced-file",
+                    message: `${relFromCwd(f)} is not used by any configuration; build.configurations.${envName} points elsewhere`,
+                    hint: "remove the file, or point the configuration at it",
+                });
+            } else {
+                add({ check: "unreferenced-file", message: `${relFromCwd(f)} is not used by any configuration`, fix: `wire "${envName}" in ${label}` },
+                    envName, wire(envName, f));
+            }
+            continue;
+        }
+        const wired = (cfg?.fileReplacements || []).some((fr: any) => typeof fr?.with === "string" && path.resolve(cwd(), fr.with) === f);
+        const unwired = wired ? unwiredTargets(envName, f, info, sourceRoot) : [];
+        if (unwired.length) {
+            add({ check: "partially-wired", message: `"${envName}" is not wired in every target of ${label} (${unwired.join(", ")})`, fix: "wire the missing targets" },
+                envName, wire(envName, f));
+        }
+    }
+}
+
+function diagnoseNgCliLegacy(envFiles: string[], add: AddIssue, doBackup: boolean, dryRun: boolean) {
+    const abs = path.resolve(cwd(), ".angular-cli.json");
+    if (!exists(abs)) return;
+    const envs: Record<string, string> = (readJson(abs).apps || [])[0]?.environments || {};
+    const referenced = new Set<string>();
+    for (const [name, rel] of Object.entries(envs)) {
+        const file = path.resolve(cwd(), "src", rel);
+        referenced.add(file);
+        if (!exists(file)) {
+            add({
+                check: "missing-file",
+                message: `.angular-cli.json: environments["${name}"] is src/${rel}, which does not exist`,
+                hint: `envx gen ${name} to create it, or envx remove ${name}`,
+            });
+        }
+    }
+    for (const f of envFiles) {
+        if (referenced.has(f)) continue;
+        const envName = path.basename(f).replace(/^environment\.|\.ts$/g, "");
+        if (envName in envs) {
+            add({ check: "unreferenced-file", message: `${relFromCwd(f)} is not used; environments["${envName}"] points elsewhere`, hint: "remove the file, or point the entry at it" });
+        } else {
+            add({ check: "unreferenced-file", message: `${relFromCwd(f)} is not used by .angular-cli.json`, fix: `add environments["${envName}"]` },
+                envName, () => updateNgCliLegacy(envName, f, doBackup, dryRun));
+        }
+    }
+}
+
+/* -------------------------- remove / rename ------------------------- */
+
+/** Every file `gen` may have written for an environment: folder variants, runtime JSON, AngularJS output. */
+function findGeneratedFiles(kind: ProjectKind, sourceRoot: string, envName: string, folder?: string): string[] {
+    if (kind === "angularjs") {
+        return findAngularJsEnvFiles(sourceRoot).filter(f =>
+            path.basename(f) === `env.${envName}.js` && (!folder || path.dirname(f) === path.dirname(angularJsEnvPath(sourceRoot, envName, folder)))
+        ).sort();
+    }
+    const out: string[] = [];
+    const base = envDir(sourceRoot);
+    if (exists(base)) {
+        out.push(...findEnvironmentFiles(base).filter(f =>
+            path.basename(f) === `environment.${envName}.ts` && (!folder || path.dirname(f) === envDir(sourceRoot, folder))
+        ));
+    }
+    const configDir = path.resolve(cwd(), sourceRoot, "assets", "config");
+    out.push(...walkFiles(configDir).filter(full =>
+        path.basename(full) === `${envName}.json` && (!folder || full === runtimeConfigPath(sourceRoot, envName, folder))
+    ));
+    return out.sort();
+}
+
+function renamedFile(file: string, envName: string, newName: string) {
+    const base = path.basename(file)
+        .replace(`environment.${envName}.ts`, `environment.${newName}.ts`)
+        .replace(`env.${envName}.js`, `env.${newName}.js`)
+        .replace(`${envName}.json`, `${newName}.json`);
+    return path.join(path.dirname(file), base);
+}
+
+/** Shared by `remove` (newName = null) and `rename`: files first, then the Angular config. */
+export function retireEnvironment(
+    envName: string,
+    newName: string | null,
+    opts: { folder?: string; project?: string; sourceRoot?: string; dryRun?: boolean; backup?: boolean }
+) {
+    if (envName === "default") throw new InputError("The baseline environment.ts cannot be removed or renamed");
+    if (newName !== null && !/^[\w-]+$/.test(newName)) throw new InputError(`Invalid environment name "${newName}"`);
+    if (newName === envName) throw new InputError("Old and new names are the same");
+
+    const kind = detectProjectKind();
+    const folder = sanitizeFolder(opts.folder);
+    const sourceRoot = resolveSourceRoot(kind, opts);
+    const dryRun = !!opts.dryRun;
+    log.info(`Detected project type: ${kind}`);
+
+    const files = findGeneratedFiles(kind, sourceRoot, envName, folder);
+    const moves = files.map(f => [f, newName ? renamedFile(f, envName, newName) : null] as const);
+    for (const [, to] of moves) {
+        if (to && exists(to)) throw new InputError(`${relFromCwd(to)} already exists`);
+    }
+
+    const info = kind === "angular-modern" ? resolveProjectInfo(opts.project) : null;
+    log.info("Plan:");
+    if (info) log.info(`  • ${newName ? "Rename" : "Remove"} "${envName}" configurations in ${relFromCwd(info.configFile)}`);
+    if (kind === "ng-cli-legacy") log.info(`  • ${newName ? "Rename" : "Remove"} environments["${envName}"] in .angular-cli.json`);
+    for (const [from, to] of moves) log.info(`  • ${to ? `Rename ${relFromCwd(from)} → ${relFromCwd(to)}` : `Delete ${relFromCwd(from)}`}`);
+
+    // config first: it refuses name clashes before any file has moved
+    if (info) {
+        const wired = (info.targets.build?.configurations?.[envName]?.fileReplacements || []).map((x: any) => x?.with);
+        if (folder && !files.some(f => wired.includes(relFromCwd(f)))) {
+            log.info(`${relFromCwd(info.configFile)} "${envName}" does not point at the ${folder}/ variant; left unchanged`);
+        } else {
+            renameAngularJsonConfiguration(envName, newName, info, !!opts.backup, dryRun);
+        }
+    } else if (kind === "ng-cli-legacy") {
+        renameNgCliLegacyEnvironment(envName, newName, !!opts.backup, dryRun);
+    }
+
+    for (const [from, to] of moves) {
+        backupFile(from, !!opts.backup);
+        if (to) moveOutput(from, to);
+        else removeOutput(from);
+        if (dryRun) log.info(`[dry-run] ${to ? `rename ${relFromCwd(from)} → ${relFromCwd(to)}` : `delete ${relFromCwd(from)}`}`);
+        else log.ok(to ? `Renamed ${relFromCwd(from)} → ${relFromCwd(to)}` : `Deleted ${relFromCwd(from)}`);
+        if (kind === "angularjs") retargetEnvScript(sourceRoot, from, to, !!opts.backup, dryRun);
+    }
+    if (!files.length) log.warn(`No files found for environment "${envName}"`);
+
+    if (kind !== "angularjs" && exists(modelPath(sourceRoot))) writeEnvironmentModel(sourceRoot, dryRun);
+}
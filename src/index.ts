@@ -1,552 +1,812 @@
-#!/usr/bin/env node
-import { Command } from "commander";
+import * as crypto from "crypto";
 import * as fs from "fs-extra";
 import * as path from "path";
-import * as dotenv from "dotenv";
-import * as semver from "semver";
-import chalk from "chalk";
-
-/* ----------------------------- helpers ------------------------------ */
-
-const log = {
-    info: (m: string) => console.log(chalk.cyan("ℹ ") + m),
-    ok: (m: string) => console.log(chalk.green("✔ ") + m),
-    warn: (m: string) => console.log(chalk.yellow("⚠ ") + m),
-    err: (m: string) => console.log(chalk.red("✖ ") + m),
-};
-
-const posix = (p: string) => p.split(path.sep).join("/");
-const relFromCwd = (p: string) => posix(path.relative(process.cwd(), p));
-
-function backupFile(absPath: string, doBackup: boolean) {
-    if (!doBackup || !fs.existsSync(absPath)) return;
-    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
-    const bak = absPath + `.bak.${stamp}`;
-    fs.copyFileSync(absPath, bak);
-    log.info(`Backup created: ${relFromCwd(bak)}`);
-}
-
-const looksLikeNumber = (v: string) => /^-?\d+(\.\d+)?$/.test(v);
-function parseValue(v: string): any {
-    const t = v.trim();
-    if (t === "true") return true;
-    if (t === "false") return false;
-    if (looksLikeNumber(t)) return Number(t);
-    if ((t.startsWith("[") && t.endsWith("]")) || (t.startsWith("{") && t.endsWith("}"))) {
-        try { return JSON.parse(t); } catch { /* ignore */ }
-    }
-    return t;
-}
-
-function parseKVPairs(pairs?: string[]): Record<string, string> {
-    const out: Record<string, string> = {};
-    if (!pairs) return out;
-    for (const p of pairs) {
-        const i = p.indexOf("=");
-        if (i === -1) continue;
-        const k = p.slice(0, i).trim();
-        const v = p.slice(i + 1).trim();
-        if (k) out[k] = v;
-    }
-    return out;
+import {
+    DoctorIssue,
+    FileChange,
+    InputError,
+    Logger,
+    MANIFEST_FILE,
+    ProjectKind,
+    RUNTIME_CONFIG_URL,
+    RunReport,
+    SCHEMA_FILE,
+    SchemaIssue,
+    annotateEnvironmentFile,
+    angularJsEnvName,
+    angularJsEnvPath,
+    applyEnvFileAction,
+    assetsNotShipped,
+    cloneSourceFor,
+    AngularJsFormat,
+    BACKUP_DIR,
+    BackupManifest,
+    ExportFormat,
+    commitChanges,
+    cwd,
+    decideEnvFileAction,
+    detectProjectKind,
+    diagnoseWorkspace as findWorkspaceIssues,
+    diffEnvironments,
+    displayValue,
+    ensureBaselineEnvironmentTs,
+    ensureRuntimeLoader,
+    envFileWatchList,
+    envDir,
+    envFilePath,
+    envNameFromFile,
+    expandVariables,
+    exportValues,
+    findAngularJsEnvFiles,
+    findDotEnvNames,
+    findEnvironmentFiles,
+    flattenValues,
+    generateAngularJsEnv,
+    listBackups as listBackupSets,
+    loadEnvFile,
+    loadManifest,
+    loadSchema,
+    loadSecretPolicy,
+    log,
+    pruneBackups as pruneBackupSets,
+    readEnvironmentValues,
+    relFromCwd,
+    resolveEnvValues,
+    resolveEnvironmentFile,
+    resolveProjectInfo,
+    resolveSourceRoot,
+    restoreBackup as restoreBackupSet,
+    retireEnvironment,
+    runtimeConfigPath,
+    runtimeLoaderPath,
+    sameValue,
+    sanitizeFolder,
+    schemaValueTypes,
+    settleRun,
+    splitTypeHints,
+    stagedChanges,
+    syncProject,
+    toRuntimeConfig,
+    unifiedDiff,
+    updateAngularJson,
+    updateNgCliLegacy,
+    validateAgainstSchema,
+    withContext,
+    writeEnvironmentModel,
+    writeRuntimeConfig,
+} from "./core";
+
+export {
+    AngularJsFormat,
+    BackupManifest,
+    DoctorCheck,
+    DoctorIssue,
+    ExportFormat,
+    InputError,
+    Logger,
+    LogLevel,
+    ProjectKind,
+    SchemaIssue,
+} from "./core";
+
+/* ------------------------------ types ------------------------------- */
+
+/** Options shared by every API call. `logger` defaults to silent; pass one to see progress lines. */
+export interface RunOptions {
+    /** Workspace root; relative paths in options and results are resolved against it. Default: process.cwd(). */
+    cwd?: string;
+    logger?: Logger;
 }
 
-function sanitizeFolder(input?: string): string | undefined {
-    if (!input) return undefined;
-    const cleaned = input.replace(/^[\\/]+/, "").replace(/\.\./g, "").trim();
-    return cleaned ? cleaned : undefined;
+export interface ProjectOptions extends RunOptions {
+    /** Angular or Nx project name (defaults to defaultProject or the first one). */
+    project?: string;
+    /** Override the detected sourceRoot, e.g. "apps/myapp/src". */
+    sourceRoot?: string;
 }
 
-function loadEnvFile(envName: string, explicitPath?: string) {
-    const candidates = explicitPath
-        ? [path.resolve(process.cwd(), explicitPath)]
-        : [path.resolve(process.cwd(), `.env.${envName}`), path.resolve(process.cwd(), `.env`)];
-    for (const p of candidates) {
-        if (fs.existsSync(p)) {
-            const file = fs.readFileSync(p, "utf8");
-            const parsed = dotenv.parse(file);
-            log.info(`Loaded env file: ${relFromCwd(p)}`);
-            return parsed;
-        }
-    }
-    return {};
+export interface ProjectDetection {
+    kind: ProjectKind;
+    /** null for AngularJS and .angular-cli.json workspaces. */
+    projectName: string | null;
+    sourceRoot: string;
+    /** angular.json, project.json, workspace.json or .angular-cli.json; null for AngularJS. */
+    configFile: string | null;
+    nx: boolean;
+}
+
+export interface GenerateOptions extends ProjectOptions {
+    /** Environment name, e.g. "uat". */
+    env: string;
+    folder?: string;
+    /**
+     * Values layered over the .env files, like `--set`. Numbers and booleans keep their type;
+     * a `KEY:type` key (string, number, boolean, json) types a string value explicitly.
+     */
+    values?: Record<string, string | number | boolean>;
+    /** Guess booleans, numbers and JSON for untyped values. Default: true. */
+    coerce?: boolean;
+    /** Fail on untyped values whose type is ambiguous: leading zeros, integers past 2^53, JSON-looking text. */
+    strict?: boolean;
+    /** Env files to use instead of the .env cascade; later files win. */
+    envFile?: string[];
+    explain?: boolean;
+    /** Layer `<prefix>KEY` variables from process.env between the env files and `values`. */
+    fromProcessEnv?: boolean;
+    /** Prefix to select and strip, e.g. "NG_APP_". Required with fromProcessEnv. */
+    prefix?: string;
+    /** Keys that must end up with a non-empty value, or the run fails. */
+    require?: string[];
+    copyFrom?: string;
+    schema?: string;
+    keyDelimiter?: string;
+    camelCase?: boolean;
+    allowKey?: string[];
+    denyKey?: string[];
+    runtime?: boolean;
+    merge?: boolean;
+    force?: boolean;
+    dryRun?: boolean;
+    /** Maintain environment.model.ts and type the generated file. Default: true. */
+    types?: boolean;
+    /** Keep a backup set of replaced files in .envx/backups. Default: true. */
+    backup?: boolean;
+    /** AngularJS output: "global" (window.__ENV, default), "constant" or "esm". */
+    angularjsFormat?: AngularJsFormat;
+    /** AngularJS module for "constant" output. Default: the ng-app in index.html. */
+    module?: string;
+    /** Constant or export name for AngularJS output. Default: "ENV". */
+    constant?: string;
+    /** AngularJS: point the envx script block in index.html at the generated file. */
+    inject?: boolean;
 }
 
-/* ------------------------- Angular detection ------------------------ */
+/** Options of the commands that write files. */
+export interface ChangeOptions extends ProjectOptions {
+    dryRun?: boolean;
+    /** Keep a backup set of replaced files in .envx/backups. Default: true. */
+    backup?: boolean;
+}
 
-type ProjectKind = "angularjs" | "ng-cli-legacy" | "angular-modern";
-type TargetsObj = { build?: any; serve?: any };
+/** What a writing command did, or on a dry run would do. */
+export interface ChangeResult {
+    /** Files created, changed, moved or deleted; empty on a dry run. */
+    filesWritten: string[];
+    /** Angular config changes as "<file>: <change>"; listed on a dry run too. */
+    configChanges: string[];
+    /** Every file touched, with a unified diff; on a dry run, what would change. */
+    changes: FileDiff[];
+    dryRun: boolean;
+}
 
-function readPackageJson() {
-    const p = path.resolve(process.cwd(), "package.json");
-    if (!fs.existsSync(p)) return null;
-    try { return fs.readJSONSync(p); } catch { return null; }
+export interface GenerateResult extends ChangeResult {
+    env: string;
+    project: ProjectDetection;
+    mode: "environment" | "runtime" | "angularjs";
+    /** Human readable steps, in order. */
+    plan: string[];
+    /** Commands that use the new environment. */
+    next: string[];
 }
 
-function detectProjectKind(): ProjectKind {
-    const angularJson = path.resolve(process.cwd(), "angular.json");
-    const ngCliJson = path.resolve(process.cwd(), ".angular-cli.json");
-    const pkg = readPackageJson();
-    const deps = Object.assign({}, pkg?.dependencies, pkg?.devDependencies);
-    const hasAngularJS = deps && typeof deps["angular"] === "string";
-    const ngCore = deps && deps["@angular/core"];
+export interface TypesResult extends ChangeResult {
+    /** Environment files that were newly typed as `Environment`. */
+    typed: string[];
+}
 
-    if (fs.existsSync(angularJson)) return "angular-modern";
-    if (fs.existsSync(ngCliJson)) return "ng-cli-legacy";
+export interface RetireOptions extends ChangeOptions {
+    /** Only the variant under environments/<folder>. Default: every folder. */
+    folder?: string;
+}
 
-    if (ngCore) {
-        const v = semver.coerce(ngCore);
-        return v && semver.gte(v, "6.0.0") ? "angular-modern" : "ng-cli-legacy";
-    }
-    return hasAngularJS ? "angularjs" : "angular-modern";
+export interface SyncOptions extends RunOptions {
+    /** Manifest file. Default: envx.config.json. */
+    config?: string;
+    /** Only sync this manifest project. */
+    project?: string;
+    /** Report drift without writing anything. */
+    check?: boolean;
+    dryRun?: boolean;
+    backup?: boolean;
 }
 
-function resolveProjectInfo(projectFlag?: string): {
-    projectName: string;
-    sourceRoot: string;
-    targets: TargetsObj;
-    data: any;
-    usesTargets: boolean;
-} {
-    const abs = path.resolve(process.cwd(), "angular.json");
-    if (!fs.existsSync(abs)) throw new Error("angular.json not found");
-
-    const data = fs.readJSONSync(abs);
-    const allProjects = Object.keys(data.projects || {});
-    if (!allProjects.length) throw new Error("No projects found in angular.json");
-
-    let projectName = projectFlag || data.defaultProject || allProjects[0];
-    if (!data.projects[projectName]) {
-        throw new Error(
-            `Project "${projectName}" not found. Available: ${allProjects.join(", ")}`
-        );
-    }
+export interface SyncResult extends ChangeResult {
+    projects: { name: string; drift: string[]; extras: string[] }[];
+    /** Differences from the manifest across all projects; fixed unless `check` or `dryRun`. */
+    drift: number;
+}
+
+export interface CheckOptions extends ProjectOptions {
+    /** Schema file. Default: envx.schema.json, which must exist. */
+    schema?: string;
+}
+
+export interface CheckResult {
+    schema: string;
+    /** Environment files, then .env files as the layered values `gen` would see for that environment. */
+    files: { file: string; issues: SchemaIssue[] }[];
+    /** Issues across all files. */
+    problems: number;
+}
+
+export interface CompareOptions extends ProjectOptions {
+    /** Subfolder under environments/ for both environments. */
+    folder?: string;
+}
+
+/** Two environments key by key. Values are display text, masked when they look like secrets. */
+export interface PairComparison {
+    kind: "pair";
+    /** The two files compared. */
+    files: [string, string];
+    added: { key: string; value: string }[];
+    removed: { key: string; value: string }[];
+    changed: { key: string; from: string; to: string }[];
+    /** Number of keys with the same value in both. */
+    same: number;
+}
+
+/** Every environment file side by side, limited to the keys that differ somewhere. */
+export interface MatrixComparison {
+    kind: "matrix";
+    environments: { name: string; file: string }[];
+    /** Number of distinct keys across all files. */
+    keys: number;
+    /** One value per environment, in `environments` order; null where the key is missing. */
+    drift: { key: string; values: (string | null)[] }[];
+}
+
+export type Comparison = PairComparison | MatrixComparison;
+
+export interface DoctorOptions extends ChangeOptions {
+    /** Repair what can be derived from the workspace (wiring, baseline file). */
+    fix?: boolean;
+}
 
-    const project = data.projects[projectName];
-    const usesTargets = !!project.targets;
-    const targets = (project.targets || project.architect || {}) as TargetsObj;
+export interface DoctorResult extends ChangeResult {
+    /** Every problem found; repaired ones have `fixed` set. */
+    issues: DoctorIssue[];
+}
+
+export type FileAction = "create" | "update" | "delete";
+
+export interface FileDiff {
+    path: string;
+    action: FileAction;
+    /** Unified diff against the file on disk; secret-looking values are masked. */
+    diff: string;
+}
+
+export interface ListResult {
+    project: ProjectDetection;
+    environments: { name: string; file: string }[];
+}
+
+export interface ExportOptions extends ProjectOptions {
+    /** Environment to read, e.g. "uat", "f1/sit", "default" or a path to a .ts file. */
+    env: string;
+    folder?: string;
+    format: ExportFormat;
+    /** Joins nested keys. Default: "__", so api.baseUrl becomes api__baseUrl. */
+    keyDelimiter?: string;
+    /** UPPER_SNAKE_CASE keys (apiUrl → API_URL), the reverse of `camelCase`. */
+    upperCase?: boolean;
+    /** ConfigMap metadata.name. Default: "<project>-<env>". */
+    name?: string;
+}
 
-    const projectRoot = project.root ? posix(project.root) : "";
-    const sourceRoot = project.sourceRoot
-        ? posix(project.sourceRoot)
-        : (projectRoot ? `${projectRoot}/src` : "src");
+export interface ExportResult {
+    env: string;
+    /** The environment file that was read. */
+    file: string;
+    format: ExportFormat;
+    content: string;
+    /** Keys whose values are expressions (process.env.X, imported constants) and were left out. */
+    skipped: string[];
+}
 
-    return { projectName, sourceRoot, targets, data, usesTargets };
+const PLAN_VERSION = 1;
+
+/** Output of `envx plan`: reviewable diffs plus the exact content `envx apply` writes. */
+export interface EnvxPlan {
+    version: number;
+    createdAt: string;
+    env: string;
+    plan: string[];
+    configChanges: string[];
+    changes: (FileDiff & {
+        /** sha256 of the file when the plan was made; null if it did not exist. */
+        beforeHash: string | null;
+        /** New content, unmasked; null deletes the file. */
+        after: string | null;
+        backup: boolean;
+    })[];
 }
 
-/* --------------------------- path helpers --------------------------- */
+export interface ApplyResult {
+    env: string;
+    filesWritten: string[];
+}
 
-function envDir(sourceRoot: string, folder?: string) {
-    return path.resolve(process.cwd(), sourceRoot, "environments", ...(folder ? [folder] : []));
+export interface WatchOptions extends GenerateOptions {
+    /** Milliseconds to wait after the last change before regenerating. Default: 300. */
+    debounce?: number;
+    /** Called after every regeneration, also when nothing changed (`filesWritten` is empty). */
+    onResult?: (result: GenerateResult) => void;
+    /** Called when a regeneration fails, e.g. on an undefined `${VAR}`; watching continues. */
+    onError?: (error: Error) => void;
 }
-function envFilePath(sourceRoot: string, env?: string, folder?: string) {
-    const dir = envDir(sourceRoot, folder);
-    return path.resolve(dir, env ? `environment.${env}.ts` : "environment.ts");
+
+export interface Watcher {
+    /** Watched env files, relative to cwd; they need not exist yet. */
+    files: string[];
+    close(): void;
 }
 
-function findCloneSource(sourceRoot: string, folder?: string) {
-    const tryPaths = [
-        envFilePath(sourceRoot, "prod", folder),
-        envFilePath(sourceRoot, undefined, folder),
-        envFilePath(sourceRoot, "prod", undefined),
-        envFilePath(sourceRoot, undefined, undefined),
-    ];
-    for (const p of tryPaths) {
-        if (fs.existsSync(p)) return p;
+/* ------------------------------- API -------------------------------- */
+
+function describeProject(opts: ProjectOptions): ProjectDetection {
+    const kind = detectProjectKind();
+    if (kind === "angular-modern") {
+        const info = resolveProjectInfo(opts.project);
+        return {
+            kind,
+            projectName: info.projectName,
+            sourceRoot: opts.sourceRoot || info.sourceRoot,
+            configFile: relFromCwd(info.configFile),
+            nx: info.nx,
+        };
     }
-    return null;
-}
-
-/* ------------------------ Angular config writers -------------------- */
-
-function updateAngularJson(
-    envName: string,
-    envFileAbs: string,
-    projectName: string,
-    sourceRoot: string,
-    data: any,
-    usesTargets: boolean,
-    doBackup: boolean,
-    dryRun: boolean
-) {
-    const abs = path.resolve(process.cwd(), "angular.json");
-    const baseReplace = `${posix(sourceRoot)}/environments/environment.ts`;
-    const withReplace = posix(path.relative(process.cwd(), envFileAbs));
-
-    const project = data.projects[projectName];
-    const targets = project.targets || project.architect || {};
-    const build = targets.build || {};
-    const serve = targets.serve || {};
-
-    build.configurations = build.configurations || {};
-    serve.configurations = serve.configurations || {};
-
-    build.configurations[envName] = build.configurations[envName] || {};
-    const bcfg = build.configurations[envName];
-
-    const fr = Array.isArray(bcfg.fileReplacements) ? bcfg.fileReplacements : [];
-    const idx = fr.findIndex((x: any) => x?.replace === baseReplace);
-    const entry = { replace: baseReplace, with: withReplace };
-    if (idx >= 0) fr[idx] = entry; else fr.push(entry);
-    bcfg.fileReplacements = fr;
-
-    serve.configurations[envName] = { browserTarget: `${projectName}:build:${envName}` };
-
-    if (dryRun) {
-        log.info(`[dry-run] angular.json would be updated:`);
-        log.info(`  replace: ${baseReplace}`);
-        log.info(`  with:    ${withReplace}`);
-        return;
+    return {
+        kind,
+        projectName: null,
+        sourceRoot: opts.sourceRoot || "src",
+        configFile: kind === "ng-cli-legacy" ? ".angular-cli.json" : null,
+        nx: false,
+    };
+}
+
+/** Detect the workspace kind and the project envx would use in `cwd`. */
+export function detectProject(cwd?: string, opts: Omit<ProjectOptions, "cwd"> = {}): ProjectDetection {
+    return withContext({ cwd, logger: opts.logger ?? null }, () => describeProject(opts));
+}
+
+/** Environment files under the project's environments folder, e.g. `{ name: "f1/sit", file: "src/environments/f1/environment.sit.ts" }`. */
+export function listEnvironments(opts: ProjectOptions = {}): ListResult {
+    return withContext({ cwd: opts.cwd, logger: opts.logger ?? null }, () => {
+        const project = describeProject(opts);
+        const environments: ListResult["environments"] = [];
+        const base = envDir(project.sourceRoot);
+        if (project.kind === "angularjs") {
+            for (const f of findAngularJsEnvFiles(project.sourceRoot).sort()) {
+                environments.push({ name: angularJsEnvName(project.sourceRoot, f), file: relFromCwd(f) });
+            }
+        } else if (fs.existsSync(base)) {
+            for (const f of findEnvironmentFiles(base).sort()) {
+                environments.push({ name: envNameFromFile(base, f), file: relFromCwd(f) });
+            }
+        }
+        return { project, environments };
+    });
+}
+
+/** `envx export`: an environment file as .env, flat JSON, a Kubernetes ConfigMap or a docker env-file. */
+export function exportEnvironment(opts: ExportOptions): ExportResult {
+    return withContext({ cwd: opts.cwd, logger: opts.logger ?? null }, () => {
+        const project = describeProject(opts);
+        if (project.kind === "angularjs") throw new InputError("export reads Angular environment.<env>.ts files; this is an AngularJS project");
+        const file = resolveEnvironmentFile(project.sourceRoot, opts.env, sanitizeFolder(opts.folder));
+        if (!fs.existsSync(file)) throw new InputError(`${relFromCwd(file)} not found`);
+
+        const env = envNameFromFile(envDir(project.sourceRoot), file);
+        const name = opts.name ?? `${project.projectName || "app"}-${env}`.toLowerCase().replace(/[^a-z0-9.-]+/g, "-");
+        const { content, skipped } = exportValues(readEnvironmentValues(file), { ...opts, name });
+        for (const k of skipped) log.warn(`Skipped ${k}: its value is an expression, not a literal`);
+        return { env, file: relFromCwd(file), format: opts.format, content, skipped };
+    });
+}
+
+type GenerateOutline = Omit<GenerateResult, "filesWritten" | "configChanges" | "changes" | "dryRun">;
+
+/** Decide and stage everything `gen` does; the caller settles the staged changes. */
+function stageGenerate(opts: GenerateOptions): GenerateOutline {
+    const envName = opts.env;
+    const dryRun = !!opts.dryRun;
+    const { values: inline, valueTypes } = splitTypeHints(opts.values || {});
+    const gen = {
+        ...opts,
+        types: opts.types !== false,
+        backup: opts.backup !== false,
+        valueTypes: { ...schemaValueTypes(opts.schema), ...valueTypes },
+    };
+    const project = describeProject(opts);
+    const kind = project.kind;
+    const folder = sanitizeFolder(opts.folder);
+    const kv = resolveEnvValues(envName, inline, "--set", gen);
+    const count = Object.keys(kv).length;
+
+    const plan: string[] = [];
+    const result = (mode: GenerateResult["mode"], next: string[]): GenerateOutline => ({ env: envName, project, mode, plan, next });
+    const printPlan = () => {
+        log.info("Plan:");
+        for (const p of plan) log.info(`  • ${p}`);
+    };
+
+    log.info(`Detected project type: ${kind}`);
+    if (opts.runtime) {
+        if (kind === "angularjs") {
+            throw new InputError("--runtime is for Angular 2+; AngularJS output is already loaded at runtime (window.__ENV)");
+        }
+        const sourceRoot = resolveSourceRoot(kind, opts);
+        const target = runtimeConfigPath(sourceRoot, envName, folder);
+        const action = decideEnvFileAction(target, count > 0, opts);
+        const loader = runtimeLoaderPath(sourceRoot);
+
+        plan.push(`${action === "use" ? "Use existing" : action === "merge" ? "Merge into" : "Write"} ${relFromCwd(target)}${action === "use" ? "" : ` (${count} keys)`}`);
+        plan.push(`${fs.existsSync(loader) ? "Keep existing" : "Create"} loader ${relFromCwd(loader)}`);
+        plan.push("No fileReplacements: the same build serves every environment");
+        printPlan();
+
+        writeRuntimeConfig(action, envName, kv, target, gen);
+        ensureRuntimeLoader(sourceRoot, toRuntimeConfig(envName, kv, gen), dryRun);
+        if (kind === "angular-modern" && assetsNotShipped(resolveProjectInfo(opts.project).targets, sourceRoot)) {
+            log.warn(`${sourceRoot}/assets is not listed in the build "assets" option; the config will not be deployed`);
+        }
+        return result("runtime", [
+            "Register the loader once, e.g. providers: [provideRuntimeConfig()]",
+            `Deploy ${relFromCwd(target)} as ${RUNTIME_CONFIG_URL} and inject RUNTIME_CONFIG`,
+        ]);
     }
 
-    backupFile(abs, doBackup);
-    if (usesTargets) {
-        project.targets.build = build;
-        project.targets.serve = serve;
-    } else {
-        project.architect.build = build;
-        project.architect.serve = serve;
+    if (kind === "angularjs") {
+        const sourceRoot = project.sourceRoot;
+        const target = angularJsEnvPath(sourceRoot, envName, folder);
+        const format = opts.angularjsFormat || "global";
+        plan.push(`Create ${relFromCwd(target)} as ${format === "constant" ? "an AngularJS constant" : format === "esm" ? "an ES module" : "a window.__ENV script"} (${count} keys)`);
+        if (opts.inject) plan.push(`Point the envx <script> block in ${sourceRoot}/index.html at it`);
+        plan.push("No angular.json updates for AngularJS");
+        printPlan();
+        generateAngularJsEnv(envName, kv, sourceRoot, { ...gen, folder }, dryRun);
+        const src = path.relative(path.resolve(cwd(), sourceRoot), target).split(path.sep).join("/");
+        if (opts.inject || format === "esm") return result("angularjs", []);
+        return result("angularjs", [`Load it in index.html with <script src="${src}"></script>, or pass --inject`]);
     }
-    data.projects[projectName] = project;
-    fs.writeFileSync(abs, JSON.stringify(data, null, 2) + "\n", "utf8");
-    log.ok(`angular.json updated with configuration "${envName}"`);
-}
-
-function updateNgCliLegacy(
-    envName: string,
-    envFileAbs: string,
-    doBackup: boolean,
-    dryRun: boolean
-) {
-    const abs = path.resolve(process.cwd(), ".angular-cli.json");
-    if (!fs.existsSync(abs)) throw new Error(".angular-cli.json not found");
-
-    const data = fs.readJSONSync(abs);
-    const apps = data.apps || data.project?.apps || [];
-    if (!apps.length) throw new Error("No apps found in .angular-cli.json");
-
-    const app0 = apps[0];
-    app0.environments = app0.environments || {};
-    const relFromSrc = posix(path.relative(path.resolve(process.cwd(), "src"), envFileAbs));
-    const mapped = relFromSrc.startsWith("environments/")
-        ? relFromSrc
-        : "environments/" + path.basename(envFileAbs);
-
-    if (dryRun) {
-        log.info(`[dry-run] .angular-cli.json would be updated:`);
-        log.info(`  environments["${envName}"] = "${mapped}"`);
-        return;
+
+    const sourceRoot = project.sourceRoot;
+    if (kind === "angular-modern") {
+        log.info(`Using project: ${project.projectName}`);
+        log.info(`sourceRoot: ${sourceRoot}`);
+    } else {
+        log.info(`Legacy Angular CLI detected (.angular-cli.json). Using sourceRoot: ${sourceRoot}`);
     }
 
-    backupFile(abs, doBackup);
-    app0.environments[envName] = mapped;
-    fs.writeFileSync(abs, JSON.stringify(data, null, 2) + "\n", "utf8");
-    log.ok(`.angular-cli.json updated: environments["${envName}"] = "${mapped}"`);
-}
-
-/* --------------------- file generators (Angular) -------------------- */
-
-function ensureBaselineEnvironmentTs(
-    sourceRoot: string,
-    doBackup: boolean,
-    dryRun: boolean
-) {
-    const baseline = envFilePath(sourceRoot); // environment.ts in root environments
-    if (fs.existsSync(baseline)) return baseline;
-
-    // Try cloning from prod in root environments
-    const prod = envFilePath(sourceRoot, "prod");
-    if (fs.existsSync(prod)) {
-        if (dryRun) { log.info(`[dry-run] clone ${relFromCwd(prod)} → ${relFromCwd(baseline)}`); return baseline; }
-        fs.mkdirpSync(path.dirname(baseline));
-        fs.copyFileSync(prod, baseline);
-        log.ok(`Created baseline: ${relFromCwd(baseline)} (cloned from environment.prod.ts)`);
-        return baseline;
+    // 1) Ensure baseline environment.ts exists at root environments
+    ensureBaselineEnvironmentTs(sourceRoot, gen.backup, dryRun);
+
+    // 2) Decide target env file location
+    const targetPath = envFilePath(sourceRoot, envName, folder);
+    const alreadyExists = fs.existsSync(targetPath);
+    const action = decideEnvFileAction(targetPath, count > 0, opts);
+
+    if (action === "use") {
+        plan.push(`Use existing ${relFromCwd(targetPath)}`);
+    } else if (action === "merge") {
+        plan.push(`Merge ${count} key(s) into ${relFromCwd(targetPath)}`);
+    } else if (action === "write") {
+        plan.push(`${alreadyExists ? "Overwrite" : "Create"} ${relFromCwd(targetPath)} from provided values (${count} keys)`);
+    } else {
+        const src = cloneSourceFor(sourceRoot, envName, folder, opts.copyFrom);
+        plan.push(src
+            ? `Clone ${relFromCwd(src)} into ${relFromCwd(targetPath)}`
+            : `Create minimal ${relFromCwd(targetPath)} (production flag only)`);
     }
+    printPlan();
+
+    // 3) Execute file creation
+    const finalEnvFile = applyEnvFileAction(action, envName, kv, sourceRoot, folder, gen);
+    if (gen.types) writeEnvironmentModel(sourceRoot, dryRun);
+
+    // 4) Wire angular.json (or the Nx project.json / legacy .angular-cli.json)
+    if (kind === "angular-modern") {
+        const info = resolveProjectInfo(project.projectName!);
+        updateAngularJson(envName, finalEnvFile, info, sourceRoot, gen.backup, dryRun);
+        const run = (t: string) => info.nx ? `nx ${t} ${info.projectName} -c ${envName}` : `ng ${t} -c ${envName}`;
+        return result("environment", [run("build"), run("serve")]);
+    }
+    updateNgCliLegacy(envName, finalEnvFile, gen.backup, dryRun);
+    return result("environment", [`ng build --env=${envName}`, `ng serve --env=${envName}`]);
+}
+
+const actionOf = (c: FileChange): FileAction => (c.before === null ? "create" : c.after === null ? "delete" : "update");
+const toFileDiff = (c: FileChange): FileDiff => ({ path: c.path, action: actionOf(c), diff: unifiedDiff(c) });
+const sha256 = (text: string) => crypto.createHash("sha256").update(text).digest("hex");
 
-    // Minimal stub
-    const content = `export const environment = { production: false };` + "\n";
-    if (dryRun) { log.info(`[dry-run] create ${relFromCwd(baseline)}`); return baseline; }
-    fs.mkdirpSync(path.dirname(baseline));
-    fs.writeFileSync(baseline, content, "utf8");
-    log.ok(`Created baseline: ${relFromCwd(baseline)}`);
-    return baseline;
+/** Write (or on a dry run only describe) what the run staged. */
+function settle(report: RunReport, dryRun: boolean): ChangeResult {
+    const changes = settleRun(dryRun);
+    return { filesWritten: report.filesWritten, configChanges: report.configChanges, changes: changes.map(toFileDiff), dryRun };
 }
 
-function toEnvironmentTs(envName: string, kv: Record<string, string>): string {
-    // pretty-print values and coerce booleans/numbers/JSON
-    const entries = Object.entries(kv).map(
-        ([k, v]) => `  ${k}: ${JSON.stringify(parseValue(v))},`
-    );
+/** `envx gen`: write the environment file (or runtime config) and wire the Angular config. */
+export function generateEnvironment(opts: GenerateOptions): GenerateResult {
+    return withContext({ cwd: opts.cwd, logger: opts.logger ?? null, command: `envx gen ${opts.env}` }, report => {
+        const outline = stageGenerate(opts);
+        return { ...outline, ...settle(report, !!opts.dryRun) };
+    });
+}
 
-    // prod/production => production: true
-    const isProd = /^(prod|production)$/i.test(envName);
-
-    return `export const environment = {
-  production: ${isProd},
-${entries.join("\n")}
-};
-`;
-}
-
-
-function writeEnvironmentTs(
-    envName: string,
-    kv: Record<string, string>,
-    sourceRoot: string,
-    folder: string | undefined,
-    dryRun: boolean
-) {
-    const dir = envDir(sourceRoot, folder);
-    const target = path.resolve(dir, `environment.${envName}.ts`);
-    const content = toEnvironmentTs(envName, kv);
-    if (dryRun) { log.info(`[dry-run] create ${relFromCwd(target)}`); return target; }
-    fs.mkdirpSync(dir);
-    fs.writeFileSync(target, content, "utf8");
-    log.ok(`Created ${relFromCwd(target)}`);
-    return target;
-}
-
-function cloneEnvironmentFile(
-    sourceRoot: string,
-    destEnv: string,
-    folder: string | undefined,
-    explicitFrom?: string,
-    dryRun?: boolean
-) {
-    const preferred = explicitFrom ? envFilePath(sourceRoot, explicitFrom, folder) : null;
-    const src =
-        (preferred && fs.existsSync(preferred) && preferred) ||
-        findCloneSource(sourceRoot, folder);
-    if (!src) return null;
-
-    const dest = envFilePath(sourceRoot, destEnv, folder);
-    if (dryRun) { log.info(`[dry-run] clone ${relFromCwd(src)} → ${relFromCwd(dest)}`); return dest; }
-    fs.mkdirpSync(path.dirname(dest));
-    fs.copyFileSync(src, dest);
-    log.ok(`Cloned ${relFromCwd(src)} → ${relFromCwd(dest)}`);
-    return dest;
-}
-
-/* --------------------------- AngularJS path ------------------------- */
-
-function generateAngularJsEnv(
-    envName: string,
-    kv: Record<string, string>,
-    dryRun: boolean
-) {
-    const outDir = path.resolve(process.cwd(), "src", "assets");
-    const target = path.resolve(outDir, `env.${envName}.js`);
-    const obj: any = {}; for (const [k, v] of Object.entries(kv)) obj[k] = parseValue(v);
-    const content = `// generated by envx
-(function(w){ w.__ENV = ${JSON.stringify(obj, null, 2)}; })(window);
-`;
-    if (dryRun) { log.info(`[dry-run] create ${relFromCwd(target)}`); return target; }
-    fs.mkdirpSync(outDir);
-    fs.writeFileSync(target, content, "utf8");
-    log.ok(`AngularJS env file created: ${relFromCwd(target)}`);
-    log.info(`Include it in index.html: <script src="assets/env.${envName}.js"></script>`);
-    return target;
-}
-
-/* ------------------------------ CLI -------------------------------- */
-
-const program = new Command();
-program
-    .name("envx")
-    .description("Smart env manager for Angular projects (AngularJS 1.x to Angular 21)")
-    .version("0.2.0");
-
-program
-    .command("gen")
-    .argument("<env>", "environment name, e.g., dev | sit | uat | prod")
-    .option("-f, --folder <name>", "subfolder under environments/, e.g., f1")
-    .option("--project <name>", "Angular project name (defaults to defaultProject or first)")
-    .option("--source-root <path>", "override detected sourceRoot (e.g., apps/myapp/src)")
-    .option("-e, --env-file <path>", "path to an env file (optional)")
-    .option("-s, --set <kv...>", "inline key=value pairs to write (optional)")
-    .option("--copy-from <env>", "clone from an existing environment file first (optional)")
-    .option("--dry-run", "show plan without writing files", false)
-    .option("--no-backup", "do not create timestamped backups of angular configs")
-    .description("Generate environment file and update Angular config")
-    .action((envName: string, opts: {
-        folder?: string;
-        project?: string;
-        sourceRoot?: string;
-        envFile?: string;
-        set?: string[];
-        copyFrom?: string;
-        dryRun?: boolean;
-        backup?: boolean;
-    }) => {
-        try {
-            const kind = detectProjectKind();
-            const folder = sanitizeFolder(opts.folder);
-            const inlineKV = parseKVPairs(opts.set);
-            const fileKV = loadEnvFile(envName, opts.envFile);
-            const kv = { ...fileKV, ...inlineKV };
-
-            log.info(`Detected project type: ${kind}`);
-            if (kind === "angularjs") {
-                log.info(`Plan:
-  • Create assets/${folder ? folder + "/" : ""}env.${envName}.js from provided values (${Object.keys(kv).length} keys)
-  • No angular.json updates for AngularJS`);
-                generateAngularJsEnv(envName, kv, !!opts.dryRun);
-                return;
+/** `envx gen types`: regenerate environment.model.ts and type every environment file as `Environment`. */
+export function generateTypes(opts: ChangeOptions = {}): TypesResult {
+    return withContext({ cwd: opts.cwd, logger: opts.logger ?? null, command: "envx gen types" }, report => {
+        const project = describeProject(opts);
+        if (project.kind === "angularjs") throw new InputError("AngularJS projects have no environment.ts files to type");
+        const base = envDir(project.sourceRoot);
+        if (!fs.existsSync(base)) throw new Error(`No environments folder found at ${relFromCwd(base)}`);
+
+        const dryRun = !!opts.dryRun;
+        writeEnvironmentModel(project.sourceRoot, dryRun);
+        const typed: string[] = [];
+        for (const f of findEnvironmentFiles(base).sort()) {
+            try {
+                if (annotateEnvironmentFile(f, project.sourceRoot, dryRun)) typed.push(relFromCwd(f));
+            } catch (e: any) {
+                log.warn(`Skipping ${relFromCwd(f)}: ${e.message}`);
             }
+        }
+        return { typed, ...settle(report, dryRun) };
+    });
+}
+
+/** `envx remove`: delete an environment's files and its Angular config entries. */
+export function removeEnvironment(env: string, opts: RetireOptions = {}): ChangeResult {
+    return withContext({ cwd: opts.cwd, logger: opts.logger ?? null, command: `envx remove ${env}` }, report => {
+        retireEnvironment(env, null, { ...opts, backup: opts.backup !== false });
+        return settle(report, !!opts.dryRun);
+    });
+}
+
+/** `envx rename`: move an environment's files and Angular config entries to a new name. */
+export function renameEnvironment(env: string, newName: string, opts: RetireOptions = {}): ChangeResult {
+    return withContext({ cwd: opts.cwd, logger: opts.logger ?? null, command: `envx rename ${env} ${newName}` }, report => {
+        retireEnvironment(env, newName, { ...opts, backup: opts.backup !== false });
+        return settle(report, !!opts.dryRun);
+    });
+}
 
-            // Modern or legacy Angular
-            let sourceRoot = opts.sourceRoot || "src";
-            let projectName = "app";
-
-            if (kind === "angular-modern") {
-                const { projectName: pn, sourceRoot: sr, data, targets, usesTargets } =
-                    resolveProjectInfo(opts.project);
-                projectName = pn;
-                sourceRoot = opts.sourceRoot || sr;
-
-                log.info(`Using project: ${projectName}`);
-                log.info(`sourceRoot: ${sourceRoot}`);
-
-                // 1) Ensure baseline environment.ts exists at root environments
-                ensureBaselineEnvironmentTs(sourceRoot, !!opts.backup, !!opts.dryRun);
-
-                // 2) Decide target env file location
-                const targetPath = envFilePath(sourceRoot, envName, folder);
-                let finalEnvFile = targetPath;
-
-                const alreadyExists = fs.existsSync(targetPath);
-                const plan: string[] = [];
-
-                if (alreadyExists) {
-                    plan.push(`Use existing ${relFromCwd(targetPath)}`);
-                } else if (Object.keys(kv).length) {
-                    plan.push(`Create ${relFromCwd(targetPath)} from provided values (${Object.keys(kv).length} keys)`);
-                } else {
-                    const cloned = cloneEnvironmentFile(sourceRoot, envName, folder, opts.copyFrom, true);
-                    if (cloned) {
-                        plan.push(`Clone into ${relFromCwd(targetPath)} (see dry-run line above)`);
-                    } else {
-                        plan.push(`Create minimal ${relFromCwd(targetPath)} (production flag only)`);
-                    }
-                }
-
-                // Print plan
-                log.info("Plan:");
-                for (const p of plan) log.info(`  • ${p}`);
-
-                // 3) Execute file creation
-                if (!alreadyExists) {
-                    if (Object.keys(kv).length) {
-                        finalEnvFile = writeEnvironmentTs(envName, kv, sourceRoot, folder, !!opts.dryRun);
-                    } else {
-                        const cloned = cloneEnvironmentFile(sourceRoot, envName, folder, opts.copyFrom, !!opts.dryRun);
-                        if (cloned) finalEnvFile = cloned;
-                        else finalEnvFile = writeEnvironmentTs(envName, {}, sourceRoot, folder, !!opts.dryRun);
-                    }
-                }
-
-                // 4) Wire angular.json
-                updateAngularJson(
-                    envName,
-                    finalEnvFile,
-                    projectName,
-                    sourceRoot,
-                    resolveProjectInfo(projectName).data,
-                    resolveProjectInfo(projectName).usesTargets,
-                    !!opts.backup,
-                    !!opts.dryRun
-                );
-
-                if (!opts.dryRun) {
-                    log.ok(`Done. Run with:
-  ng build -c ${envName}
-  ng serve -c ${envName}`);
-                }
-                return;
+/** `envx sync`: reconcile environment files and Angular config with envx.config.json. */
+export function syncWorkspace(opts: SyncOptions = {}): SyncResult {
+    return withContext({ cwd: opts.cwd, logger: opts.logger ?? null, command: "envx sync" }, report => {
+        const manifest = loadManifest(opts.config);
+        const kind = detectProjectKind();
+        if (kind === "angularjs") throw new InputError("sync supports Angular 2+ workspaces only");
+
+        const names = Object.keys(manifest.projects).filter(n => !opts.project || n === opts.project);
+        if (!names.length) throw new InputError(`Project "${opts.project}" is not in ${opts.config || MANIFEST_FILE}`);
+
+        const projects = names.map(name => ({
+            name,
+            ...syncProject(kind, name, manifest.projects[name], { ...opts, backup: opts.backup !== false }),
+        }));
+        const drift = projects.reduce((n, p) => n + p.drift.length, 0);
+        return { projects, drift, ...settle(report, !!opts.dryRun) };
+    });
+}
+
+/** `envx check`: validate environment files and .env files against the schema. */
+export function checkEnvironments(opts: CheckOptions = {}): CheckResult {
+    return withContext({ cwd: opts.cwd, logger: opts.logger ?? null }, () => {
+        const schema = loadSchema(opts.schema);
+        if (!schema) throw new Error(`${SCHEMA_FILE} not found; create it or pass --schema <path>`);
+
+        const project = describeProject(opts);
+        // .env targets are checked as the layered result `gen` would see for that environment
+        const targets: { file: string; env?: string }[] = [];
+        if (project.kind !== "angularjs") {
+            const base = envDir(resolveSourceRoot(project.kind, opts));
+            if (fs.existsSync(base)) {
+                for (const f of findEnvironmentFiles(base).sort()) targets.push({ file: f });
             }
+        }
+        for (const env of findDotEnvNames().sort()) {
+            targets.push({ file: path.resolve(cwd(), env === "default" ? ".env" : `.env.${env}`), env });
+        }
 
-            // Legacy Angular 2–5
-            sourceRoot = opts.sourceRoot || "src";
-            log.info(`Legacy Angular CLI detected (.angular-cli.json). Using sourceRoot: ${sourceRoot}`);
-
-            // Ensure baseline
-            ensureBaselineEnvironmentTs(sourceRoot, !!opts.backup, !!opts.dryRun);
-
-            const targetPath = envFilePath(sourceRoot, envName, folder);
-            let finalEnvFile = targetPath;
-
-            if (fs.existsSync(targetPath)) {
-                log.info(`Plan:\n  • Use existing ${relFromCwd(targetPath)}`);
-            } else if (Object.keys(kv).length) {
-                log.info(`Plan:\n  • Create ${relFromCwd(targetPath)} from provided values (${Object.keys(kv).length} keys)`);
-                finalEnvFile = writeEnvironmentTs(envName, kv, sourceRoot, folder, !!opts.dryRun);
-            } else {
-                const cloned = cloneEnvironmentFile(sourceRoot, envName, folder, opts.copyFrom, !!opts.dryRun);
-                if (cloned) finalEnvFile = cloned;
-                else finalEnvFile = writeEnvironmentTs(envName, {}, sourceRoot, folder, !!opts.dryRun);
+        const files = targets.map(t => {
+            let issues: SchemaIssue[];
+            try {
+                const values = t.env
+                    ? expandVariables(loadEnvFile(t.env, undefined, true)).values
+                    : readEnvironmentValues(t.file);
+                issues = validateAgainstSchema(values, schema, !!t.env);
+            } catch (e: any) {
+                issues = [{ key: "(file)", message: `could not be parsed: ${e.message}` }];
             }
+            return { file: relFromCwd(t.file), issues };
+        });
+        const problems = files.reduce((n, f) => n + f.issues.length, 0);
+        return { schema: opts.schema || SCHEMA_FILE, files, problems };
+    });
+}
 
-            updateNgCliLegacy(envName, finalEnvFile, !!opts.backup, !!opts.dryRun);
-            if (!opts.dryRun) {
-                log.ok(`Done. Run with:
-  ng build --env=${envName}
-  ng serve --env=${envName}`);
+/**
+ * `envx diff`: compare two environments (`envA`, `envB`) key by key, or, with neither,
+ * every environment file as a matrix of the keys that differ.
+ */
+export function compareEnvironments(envA?: string, envB?: string, opts: CompareOptions = {}): Comparison {
+    return withContext({ cwd: opts.cwd, logger: opts.logger ?? null }, () => {
+        const project = describeProject(opts);
+        if (project.kind === "angularjs") throw new InputError("diff compares Angular environment.<env>.ts files; this is an AngularJS project");
+        if (envA && !envB) throw new InputError("Pass two environments to compare, or none for a matrix");
+        const sourceRoot = resolveSourceRoot(project.kind, opts);
+        const policy = loadSecretPolicy();
+
+        if (envA && envB) {
+            const folder = sanitizeFolder(opts.folder);
+            const fileA = resolveEnvironmentFile(sourceRoot, envA, folder);
+            const fileB = resolveEnvironmentFile(sourceRoot, envB, folder);
+            for (const f of [fileA, fileB]) {
+                if (!fs.existsSync(f)) throw new Error(`${relFromCwd(f)} not found`);
             }
-        } catch (e: any) {
-            log.err(e.message || String(e));
-            process.exitCode = 1;
+            const a = flattenValues(readEnvironmentValues(fileA));
+            const b = flattenValues(readEnvironmentValues(fileB));
+            const d = diffEnvironments(a, b);
+            const show = (k: string, v: any) => displayValue(k, v, policy);
+            return {
+                kind: "pair",
+                files: [relFromCwd(fileA), relFromCwd(fileB)],
+                added: d.added.map(key => ({ key, value: show(key, b[key]) })),
+                removed: d.removed.map(key => ({ key, value: show(key, a[key]) })),
+                changed: d.changed.map(key => ({ key, from: show(key, a[key]), to: show(key, b[key]) })),
+                same: d.same.length,
+            };
         }
+
+        const base = envDir(sourceRoot);
+        if (!fs.existsSync(base)) throw new Error(`No environments folder found at ${relFromCwd(base)}`);
+        const files = findEnvironmentFiles(base).sort();
+        const envs = files.map(f => flattenValues(readEnvironmentValues(f)));
+        const keys = Array.from(new Set(envs.flatMap(e => Object.keys(e)))).sort();
+        const drift = keys.filter(k => envs.some(e => !(k in e) || !sameValue(e[k], envs[0][k])));
+        return {
+            kind: "matrix",
+            environments: files.map(f => ({ name: envNameFromFile(base, f), file: relFromCwd(f) })),
+            keys: keys.length,
+            drift: drift.map(key => ({ key, values: envs.map(e => (e[key] === undefined ? null : displayValue(key, e[key], policy))) })),
+        };
     });
+}
 
-program
-    .command("list")
-    .option("--project <name>", "Angular project name")
-    .option("--source-root <path>", "override detected sourceRoot")
-    .description("List discovered environment files under environments/ (recursively)")
-    .action((opts: { project?: string; sourceRoot?: string }) => {
-        try {
-            const kind = detectProjectKind();
-            if (kind === "angularjs") {
-                log.info("AngularJS project: environment files are not used the same way.");
-                return;
-            }
+/** `envx doctor`: audit environment files and their Angular wiring, and with `fix` repair what it can. */
+export function diagnoseWorkspace(opts: DoctorOptions = {}): DoctorResult {
+    return withContext({ cwd: opts.cwd, logger: opts.logger ?? null, command: "envx doctor --fix" }, report => {
+        const issues = findWorkspaceIssues(detectProjectKind(), { ...opts, backup: opts.backup !== false });
+        return { issues, ...settle(report, !opts.fix || !!opts.dryRun) };
+    });
+}
 
-            let sourceRoot = opts.sourceRoot || "src";
-            if (kind === "angular-modern") {
-                const info = resolveProjectInfo(opts.project);
-                sourceRoot = opts.sourceRoot || info.sourceRoot;
-                log.info(`Project: ${info.projectName}`);
-            }
+/** Work out what `gen` would change without touching the disk, as a plan `applyPlan` can replay. */
+export function createPlan(opts: GenerateOptions): EnvxPlan {
+    return withContext({ cwd: opts.cwd, logger: opts.logger ?? null }, report => {
+        const outline = stageGenerate({ ...opts, dryRun: true });
+        return {
+            version: PLAN_VERSION,
+            createdAt: new Date().toISOString(),
+            env: outline.env,
+            plan: outline.plan,
+            configChanges: report.configChanges,
+            changes: stagedChanges().map(c => ({
+                path: c.path,
+                action: actionOf(c),
+                beforeHash: c.before === null ? null : sha256(c.before),
+                after: c.after,
+                backup: c.backup && opts.backup !== false,
+                diff: unifiedDiff(c),
+            })),
+        };
+    });
+}
 
-            const base = envDir(sourceRoot);
-            if (!fs.existsSync(base)) {
-                log.warn(`No environments folder found at ${relFromCwd(base)}`);
-                return;
-            }
+/**
+ * Write exactly what `plan` describes. Refuses (InputError) when any target differs
+ * from when the plan was made, before anything is written.
+ */
+export function applyPlan(plan: EnvxPlan, opts: RunOptions & { backup?: boolean } = {}): ApplyResult {
+    if (!plan || plan.version !== PLAN_VERSION || !Array.isArray(plan.changes)) {
+        throw new InputError(`Not an envx plan (expected version ${PLAN_VERSION})`);
+    }
+    return withContext({ cwd: opts.cwd, logger: opts.logger ?? null, command: `envx apply (${plan.env})` }, report => {
+        const stale: string[] = [];
+        for (const c of plan.changes) {
+            const abs = path.resolve(cwd(), c.path);
+            const current = fs.existsSync(abs) ? sha256(fs.readFileSync(abs, "utf8")) : null;
+            if (current !== c.beforeHash) stale.push(c.path);
+        }
+        if (stale.length) {
+            throw new InputError(`Changed since the plan was made: ${stale.join(", ")}. Create a new plan.`);
+        }
+        commitChanges(plan.changes.map(c => ({
+            path: c.path,
+            before: null,
+            after: c.after,
+            backup: c.backup && opts.backup !== false,
+        })));
+        for (const f of report.filesWritten) log.ok(`Wrote ${f}`);
+        return { env: plan.env, filesWritten: report.filesWritten };
+    });
+}
 
-            const files: string[] = [];
-            (function walk(dir: string) {
-                for (const entry of fs.readdirSync(dir)) {
-                    const full = path.join(dir, entry);
-                    const stat = fs.statSync(full);
-                    if (stat.isDirectory()) walk(full);
-                    else if (/environment\.[^.]+\.ts$/.test(entry) || entry === "environment.ts") {
-                        files.push(relFromCwd(full));
-                    }
-                }
-            })(base);
-
-            if (!files.length) {
-                log.warn("No environment files found.");
-                return;
-            }
-            log.ok(`Found ${files.length} file(s):`);
-            files.sort().forEach(f => console.log("  - " + f));
+/**
+ * `envx watch`: generate once, then again whenever one of the env files changes. Values are merged
+ * into the existing file (replaced with `force`); unchanged files are not rewritten, so a running
+ * `ng serve` only rebuilds when a value really changed. Only the first run takes a backup.
+ */
+export function watchEnvironment(opts: WatchOptions): Watcher {
+    const root = path.resolve(opts.cwd ?? process.cwd());
+    const debounce = opts.debounce ?? 300;
+    if (!Number.isFinite(debounce) || debounce < 0) throw new InputError(`Invalid debounce "${opts.debounce}"`);
+    const files = withContext({ cwd: root, logger: null }, () => envFileWatchList(opts.env, opts.envFile));
+
+    const byDir = new Map<string, Set<string>>();
+    for (const f of files) {
+        const dir = path.dirname(f);
+        if (!fs.existsSync(dir)) throw new InputError(`Cannot watch ${path.relative(root, f)}: ${path.relative(root, dir)} does not exist`);
+        byDir.set(dir, (byDir.get(dir) || new Set()).add(path.basename(f)));
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    let first = true;
+    const run = () => {
+        timer = undefined;
+        try {
+            const result = generateEnvironment({
+                ...opts,
+                cwd: root,
+                merge: !opts.force,
+                backup: first && opts.backup !== false,
+                dryRun: false,
+            });
+            first = false;
+            opts.onResult?.(result);
         } catch (e: any) {
-            log.err(e.message || String(e));
-            process.exitCode = 1;
+            opts.onError?.(e);
         }
+    };
+    const schedule = (delay: number) => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(run, delay);
+    };
+    // Watch directories, not files: editors save by replacing the file, and .env.<env>.local may not exist yet.
+    const watchers = [...byDir].map(([dir, names]) =>
+        fs.watch(dir, (_event, name) => {
+            if (name && names.has(name.toString())) schedule(debounce);
+        })
+    );
+    schedule(0);
+
+    return {
+        files: files.map(f => path.relative(root, f).split(path.sep).join("/")),
+        close() {
+            if (timer) clearTimeout(timer);
+            for (const w of watchers) w.close();
+        },
+    };
+}
+
+/** Backup sets in `.envx/backups`, oldest first. */
+export function listBackups(opts: RunOptions = {}): BackupManifest[] {
+    return withContext({ cwd: opts.cwd, logger: opts.logger ?? null }, () => listBackupSets());
+}
+
+/** `envx backups restore`: put a backup set back. The restore itself is backed up too. */
+export function restoreBackup(stamp: string, opts: RunOptions & { dryRun?: boolean } = {}): FileDiff[] {
+    return withContext({ cwd: opts.cwd, logger: opts.logger ?? null, command: `envx backups restore ${stamp}` }, () => {
+        const set = restoreBackupSet(stamp);
+        log.info(`Restoring ${set.files.length} file(s) from ${BACKUP_DIR}/${stamp}`);
+        return settleRun(!!opts.dryRun).map(toFileDiff);
     });
+}
 
-program.parse(process.argv);
+/** `envx backups prune`: delete all but the newest `keep` sets; returns the removed stamps. */
+export function pruneBackups(keep: number, opts: RunOptions = {}): string[] {
+    return withContext({ cwd: opts.cwd, logger: opts.logger ?? null }, () => pruneBackupSets(keep));
+}